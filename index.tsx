@@ -3,12 +3,17 @@ import '@angular/compiler';
 import { bootstrapApplication } from '@angular/platform-browser';
 import { provideHttpClient } from '@angular/common/http';
 import { AppComponent } from './src/app.component';
-import { provideZonelessChangeDetection } from '@angular/core';
+import { inject, provideAppInitializer, provideZonelessChangeDetection } from '@angular/core';
+import { StorageService } from './src/services/storage.service';
+import { IndexedDbStorageService } from './src/services/indexed-db-storage.service';
+import { ProjectService } from './src/services/project.service';
 
 bootstrapApplication(AppComponent, {
   providers: [
     provideZonelessChangeDetection(),
     provideHttpClient(),
+    { provide: StorageService, useClass: IndexedDbStorageService },
+    provideAppInitializer(() => inject(ProjectService).init()),
   ],
 }).catch(err => console.error(err));
 
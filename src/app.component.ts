@@ -1,25 +1,53 @@
-import { Component, ChangeDetectionStrategy, signal, computed, inject, effect, ViewChild, ElementRef, AfterViewInit, OnDestroy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, signal, computed, inject, effect, untracked, ViewChild, ElementRef, AfterViewInit, OnDestroy } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { toObservable, toSignal } from '@angular/core/rxjs-interop';
-import { debounceTime, map, distinctUntilChanged } from 'rxjs/operators';
-import { GeminiService } from './services/gemini.service';
+import { debounceTime, map, distinctUntilChanged, switchMap } from 'rxjs/operators';
+import { AiService } from './services/ai.service';
+import { AiCodeResponse } from './services/ai-provider';
+import { EditorType, FileLanguage, ProjectFile, ProjectService, ProjectState } from './services/project.service';
+import { StorageService } from './services/storage.service';
+import { FileSnapshot, HistoryService } from './services/history.service';
+import { AssetService } from './services/asset.service';
+import { PreviewDocument, PreviewService } from './services/preview.service';
+import { PreviewChannelService, PreviewTarget } from './services/preview-channel.service';
+import { CompileError, CompilerService } from './services/compiler.service';
 import { MonacoEditorComponent } from './components/monaco-editor/monaco-editor.component';
 import { AiSearchComponent } from './components/ai-search/ai-search.component';
 import { AppConsoleComponent, ConsoleLog } from './components/console/console.component';
+import { mapRemoteIds, mapRemoteProperty, mapRemotePropertyIds, mapRemoteText, RemoteProperty, RemoteValue } from './utils/remote-value.utils';
+import { SourceLocation } from './utils/stack-trace.utils';
+import { findCssRule, getOffset, getPosition } from './utils/css-source.utils';
+import { MOCKS_FILE, MOCKS_TEMPLATE } from './utils/mocks.utils';
+import { NetworkRequest } from './components/network-panel/network-panel.component';
+import { ElementInspectorComponent, InspectedElement, InspectedRule } from './components/element-inspector/element-inspector.component';
+import { DeviceToolbarComponent } from './components/device-toolbar/device-toolbar.component';
+import { createDevice, DEVICE_PRESETS, getDeviceScale, getViewportSize, PreviewDevice } from './utils/devices.utils';
 import { ImageAnalyzerComponent } from './components/image-analyzer/image-analyzer.component';
+import { ProjectManagerComponent } from './components/project-manager/project-manager.component';
+import { FileHistoryComponent } from './components/file-history/file-history.component';
+import { AssetPreviewComponent } from './components/asset-preview/asset-preview.component';
+import { RenamePreview, RenamePreviewDialogComponent } from './components/rename-preview-dialog/rename-preview-dialog.component';
+import { ConflictResolution, ZipImportDialogComponent, ZipImportPlan } from './components/zip-import-dialog/zip-import-dialog.component';
+import { PreviewSecurityDialogComponent } from './components/preview-security-dialog/preview-security-dialog.component';
+import { AiSettingsComponent } from './components/ai-settings/ai-settings.component';
+import { AiProposedChange, AiReviewDialogComponent } from './components/ai-review-dialog/ai-review-dialog.component';
+import { DEFAULT_PREVIEW_SECURITY, isIsolated, PreviewSecurity } from './utils/preview-security.utils';
+import { AiChatMessage, appendMessages, branchThread, createMessage, createThread, getChatTurns, updateMessage } from './utils/ai-chat.utils';
+import { AiFileOperation, AiProjectFile, AiRejectedOperation, describeFileOperation } from './utils/ai-operations.utils';
+import { AiSettings, getProviderInfo, readAiSettings } from './utils/ai-settings.utils';
+import { basename, dirname, getExtension, getParentFolders, isInFolder, joinPath, normalizePath, rebasePath } from './utils/path.utils';
+import { createZip, downloadBlob, readZip } from './utils/zip.utils';
+import { updateReferences } from './utils/references.utils';
+import { ASSET_EXTENSIONS, getAssetKind, getAssetMimeType, isAssetPath } from './utils/assets.utils';
 
 declare var Split: any;
 
-type EditorType = 'html' | 'css' | 'js' | 'ts' | 'json' | 'md' | 'scss' | 'xml' | 'svg' | 'txt' | 'yaml';
-type ViewType = 'explorer' | 'settings' | 'image-analyzer';
-type GeminiModel = 'gemini-2.5-flash' | 'gemini-1.5-pro' | 'gemini-1.5-flash';
+type ViewType = 'explorer' | 'projects' | 'history' | 'settings' | 'image-analyzer';
 type AiContextMenuAction = 'explain' | 'bugs' | 'refactor' | 'comment';
 
-interface File {
-  name: string;
-  content: string;
-  language: EditorType;
-}
+type ExplorerRow =
+  | { kind: 'folder'; path: string; name: string; depth: number; collapsed: boolean }
+  | { kind: 'file'; path: string; name: string; depth: number; file: ProjectFile };
 
 interface Command {
     id: string;
@@ -27,6 +55,23 @@ interface Command {
     action: () => void;
 }
 
+/** AI changes waiting for review, and the answer they came with. */
+interface AiReview {
+    threadId: string;
+    messageId: string;
+    changes: AiProposedChange[];
+}
+
+/** The project as it was before an applied AI change, and the files the change left. */
+interface AiUndo {
+    threadId: string;
+    messageId: string;
+    before: Pick<ProjectState, 'files' | 'folders' | 'openFiles' | 'activeFile' | 'entryPage'>;
+    after: ProjectFile[];
+    /** Renames the change made, in order; undoing moves their history back. */
+    renames: { from: string; to: string }[];
+}
+
 @Component({
   selector: 'app-root',
   standalone: true,
@@ -38,31 +83,60 @@ interface Command {
     AiSearchComponent,
     AppConsoleComponent,
     ImageAnalyzerComponent,
+    ProjectManagerComponent,
+    ZipImportDialogComponent,
+    FileHistoryComponent,
+    RenamePreviewDialogComponent,
+    AiReviewDialogComponent,
+    AssetPreviewComponent,
+    DeviceToolbarComponent,
+    ElementInspectorComponent,
+    PreviewSecurityDialogComponent,
+    AiSettingsComponent,
   ],
   host: {
     '(document:click)': 'onDocumentClick($event)',
     '(document:keydown.escape)': 'onKeydownHandler($event)',
+    '(document:keydown.control.s)': 'onSaveShortcut($event)',
+    '(document:keydown.meta.s)': 'onSaveShortcut($event)',
     '(window:message)': 'onMessage($event)',
   },
 })
 export class AppComponent implements AfterViewInit, OnDestroy {
-  private geminiService = inject(GeminiService);
+  private aiService = inject(AiService);
+  projectService = inject(ProjectService);
+  storageService = inject(StorageService);
+  private historyService = inject(HistoryService);
+  private assetService = inject(AssetService);
+  private previewService = inject(PreviewService);
+  private previewChannel = inject(PreviewChannelService);
+  private compilerService = inject(CompilerService);
   
   title = 'AI Веб-редактор кода';
 
   private readonly STORAGE_PREFIX = 'ai-code-editor-v2-';
-  private readonly FILES_STORAGE_KEY = `${this.STORAGE_PREFIX}files`;
   private readonly THEME_STORAGE_KEY = `${this.STORAGE_PREFIX}theme`;
+  /** Where the Gemini key was kept before there was a choice of providers; only read to carry it over. */
   private readonly API_KEY_STORAGE_KEY = `${this.STORAGE_PREFIX}api-key`;
+  private readonly AI_SETTINGS_STORAGE_KEY = `${this.STORAGE_PREFIX}ai-settings`;
+  private readonly PRESERVE_LOG_STORAGE_KEY = `${this.STORAGE_PREFIX}preserve-console-log`;
+  private readonly MOCKS_ENABLED_STORAGE_KEY = `${this.STORAGE_PREFIX}mocks-enabled`;
+  private readonly AUTO_RELOAD_STORAGE_KEY = `${this.STORAGE_PREFIX}auto-reload-preview`;
   
   private readonly SUPPORTED_EXTENSIONS: EditorType[] = ['html', 'css', 'js', 'ts', 'json', 'md', 'scss', 'xml', 'svg', 'txt', 'yaml'];
   private readonly SUPPORTED_EXTENSIONS_REGEX = new RegExp(`\\.(${this.SUPPORTED_EXTENSIONS.join('|')})$`);
   private readonly SUPPORTED_EXTENSIONS_USER_MSG = this.SUPPORTED_EXTENSIONS.map(ext => `.${ext}`).join(', ');
+  private readonly ASSET_EXTENSIONS_USER_MSG = ASSET_EXTENSIONS.map(ext => `.${ext}`).join(', ');
+  private readonly MAX_ASSET_SIZE = 5 * 1024 * 1024;
 
   
   @ViewChild('newFileInput') private newFileInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('renameInput') private renameInput?: ElementRef<HTMLInputElement>;
   @ViewChild(MonacoEditorComponent) private editorComponent?: MonacoEditorComponent;
   @ViewChild('previewIframe') private previewIframe!: ElementRef<HTMLIFrameElement>;
+  @ViewChild('previewViewport') private previewViewport!: ElementRef<HTMLDivElement>;
+  @ViewChild('zipUploadInput') private zipUploadInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('aiTranscript') private aiTranscript?: ElementRef<HTMLDivElement>;
   
   onDocumentClick(event: MouseEvent) {
     if (this.isContextMenuVisible()) {
@@ -79,18 +153,79 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     }
   }
 
+  onSaveShortcut(event: Event) {
+    event.preventDefault();
+    this.createSavePoint();
+  }
+
   onMessage(event: MessageEvent) {
-    if (event.source !== this.previewIframe.nativeElement.contentWindow) {
+    const received = this.previewChannel.receive(event);
+    if (!received) {
       return;
     }
-    const { type, payload } = event.data;
-    if (type === 'CONSOLE_LOG') {
-      this.consoleLogs.update(logs => [...logs, payload]);
+    const { target, message } = received;
+    switch (message.type) {
+      case 'CONSOLE_LOG':
+        this.consoleLogs.update(logs => [...logs, this.toConsoleLog(message.payload, target)]);
+        break;
+      case 'CONSOLE_CLEAR':
+        if (this.preserveConsoleLog()) {
+          this.consoleLogs.update(logs => [...logs, { type: 'info', data: ['console.clear() не выполнен: включено «Сохранять лог».'], timestamp: new Date().toISOString() }]);
+        } else {
+          this.clearConsole();
+        }
+        break;
+      case 'NETWORK_REQUEST':
+        this.networkRequests.update(requests => [...requests, message.payload]);
+        break;
+      case 'NETWORK_RESPONSE': {
+        const { payload } = message;
+        this.networkRequests.update(requests => requests.map(r => r.id === payload.id ? { ...r, ...payload } : r));
+        break;
+      }
+      case 'NAVIGATE':
+        this.followPreviewLink(message.payload.href);
+        break;
+      case 'EVAL_RESULT': {
+        const { payload } = message;
+        const value = this.toRemoteValue(payload.value, target);
+        this.consoleLogs.update(logs => [...logs, { type: payload.ok ? 'result' : 'error', data: [value], timestamp: new Date().toISOString() }]);
+        break;
+      }
+      case 'COMPLETIONS':
+        this.pendingCompletions.get(message.payload.id)?.(message.payload.items);
+        this.pendingCompletions.delete(message.payload.id);
+        break;
+      case 'PROPERTIES': {
+        const properties = message.payload.properties.map(property => mapRemoteProperty(
+          mapRemotePropertyIds(property, id => this.toRemoteHandle(target, id)),
+          text => this.previewService.mapStackTrace(text),
+        ));
+        this.pendingProperties.get(message.payload.id)?.(properties);
+        this.pendingProperties.delete(message.payload.id);
+        break;
+      }
+      case 'ELEMENT_SELECTED': {
+        const element: InspectedElement = { ...message.payload, page: this.currentPreviewPage() };
+        this.isInspecting.set(false);
+        this.inspectedElement.set(element);
+        this.openInspectedElement(element);
+        break;
+      }
+      case 'INSPECT_CANCELLED':
+        this.isInspecting.set(false);
+        break;
+      case 'PREVIEW_WINDOW_CLOSED':
+        this.attachPreview();
+        break;
     }
   }
 
   // UI State
-  apiKey = signal<string>(this.loadFromStorage(this.API_KEY_STORAGE_KEY, ''));
+  aiSettings = signal<AiSettings>(readAiSettings(
+    this.loadFromStorage(this.AI_SETTINGS_STORAGE_KEY, null),
+    this.loadFromStorage(this.API_KEY_STORAGE_KEY, '')
+  ));
   theme = signal<'light' | 'dark'>(this.loadFromStorage(this.THEME_STORAGE_KEY, 'light'));
   isSidebarVisible = signal<boolean>(true);
   isConsoleVisible = signal<boolean>(true);
@@ -103,33 +238,175 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   private mainContentSplitInstance: any;
   private editorSplitInstance: any;
   private editorPreviewSplitInstance: any;
+
+  private readonly HISTORY_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+  private historyTimer?: ReturnType<typeof setInterval>;
   
   // File System State
-  files = signal<File[]>(this.loadFilesFromStorage());
-  openFiles = signal<File[]>(this.files().filter(f => ['index.html', 'style.css', 'script.js'].includes(f.name)));
-  activeFile = signal<File | null>(this.openFiles().length > 0 ? this.openFiles()[0] : null);
-  isCreatingFile = signal(false);
-  newFileName = signal('');
-
-  iframeSrcDoc = toSignal(
-    toObservable(this.files).pipe(
+  private initialProjectState = this.projectService.activeProjectState;
+  files = signal<ProjectFile[]>(this.initialProjectState.files);
+  openFiles = signal<ProjectFile[]>(this.resolveOpenFiles(this.initialProjectState));
+  activeFile = signal<ProjectFile | null>(this.files().find(f => f.name === this.initialProjectState.activeFile) ?? this.openFiles()[0] ?? null);
+  /** Content of the active file as stored in `files`; `activeFile` itself isn't updated while typing. */
+  activeFileContent = computed(() => this.files().find(f => f.name === this.activeFile()?.name)?.content ?? '');
+  /** Explicitly created folders. Folders implied by file paths don't need to be listed here. */
+  folders = signal<string[]>(this.initialProjectState.folders);
+  collapsedFolders = signal<ReadonlySet<string>>(new Set());
+  creatingItem = signal<{ kind: 'file' | 'folder'; parent: string } | null>(null);
+  newItemName = signal('');
+  dropTargetFolder = signal<string | null>(null);
+  renamingPath = signal<string | null>(null);
+  renameValue = signal('');
+  renamePreview = signal<RenamePreview | null>(null);
+  zipImportPlan = signal<ZipImportPlan | null>(null);
+  private draggedPath: string | null = null;
+
+  allFolders = computed(() => {
+    const folders = new Set(this.folders());
+    for (const file of this.files()) {
+      getParentFolders(file.name).forEach(folder => folders.add(folder));
+    }
+    return folders;
+  });
+
+  explorerRows = computed<ExplorerRow[]>(() => {
+    const files = this.files();
+    const folders = [...this.allFolders()];
+    const collapsed = this.collapsedFolders();
+    const rows: ExplorerRow[] = [];
+    const byName = (a: string, b: string) => a.localeCompare(b);
+
+    const visit = (parent: string, depth: number) => {
+      for (const folder of folders.filter(f => dirname(f) === parent).sort(byName)) {
+        const isCollapsed = collapsed.has(folder);
+        rows.push({ kind: 'folder', path: folder, name: basename(folder), depth, collapsed: isCollapsed });
+        if (!isCollapsed) visit(folder, depth + 1);
+      }
+      for (const file of files.filter(f => dirname(f.name) === parent).sort((a, b) => byName(a.name, b.name))) {
+        rows.push({ kind: 'file', path: file.name, name: basename(file.name), depth, file });
+      }
+    };
+    visit('', 0);
+    return rows;
+  });
+
+  // Preview pages
+  entryPage = signal<string | null>(this.initialProjectState.entryPage);
+  previewPages = computed(() => this.previewService.getPages(this.files()));
+  /** The page the preview starts on: the chosen entry page, or the main page if none is chosen or it's gone. */
+  resolvedEntryPage = computed(() => {
+    const pages = this.previewPages();
+    const entry = this.entryPage();
+    return entry && pages.includes(entry) ? entry : pages[0] ?? null;
+  });
+  private navigatedPage = signal<string | null>(null);
+  /** Sandbox and Content-Security-Policy of the preview, see preview-security.utils.ts. */
+  previewSecurity = signal<PreviewSecurity>(this.initialProjectState.previewSecurity);
+  isPreviewIsolated = computed(() => isIsolated(this.previewSecurity()));
+  isPreviewSecurityDialogOpen = signal(false);
+  // Sandbox of the document the preview was loaded from; a frame only applies a new one when it reloads.
+  private previewSandbox = DEFAULT_PREVIEW_SECURITY.sandbox.join(' ');
+  /** Device the preview emulates, or null to fill the preview pane. */
+  previewDevice = signal<PreviewDevice | null>(this.initialProjectState.device);
+  // Restored when emulation is turned back on.
+  private lastPreviewDevice: PreviewDevice = createDevice(DEVICE_PRESETS[0]);
+  private previewViewportSize = signal({ width: 0, height: 0 });
+  private previewResizeObserver?: ResizeObserver;
+  /** Size and scale of the emulated viewport. */
+  previewFrame = computed(() => {
+    const device = this.previewDevice();
+    if (!device) return null;
+    return { ...getViewportSize(device), scale: getDeviceScale(device, this.previewViewportSize()) };
+  });
+  private previewBackStack = signal<string[]>([]);
+  canGoBackInPreview = computed(() => this.previewBackStack().length > 0);
+  currentPreviewPage = computed(() => {
+    const page = this.navigatedPage();
+    return page && this.previewPages().includes(page) ? page : this.resolvedEntryPage();
+  });
+
+  private previewSource = computed(() => ({
+    files: this.files(),
+    page: this.currentPreviewPage(),
+    mocks: this.mocksEnabled(),
+    devicePixelRatio: this.previewDevice()?.devicePixelRatio,
+    security: this.previewSecurity(),
+  }));
+  private previewBuild = toSignal(
+    toObservable(this.previewSource).pipe(
       debounceTime(300),
-      map(files => this.buildIframeContent(files))
+      switchMap(async ({ files, page, ...options }) => {
+        const compiled = await this.compilerService.compileProject(files);
+        if (isIsolated(options.security)) await this.assetService.readDataUrls(files);
+        const document = this.previewService.buildDocument(files, page, compiled, options);
+        this.reportBuildErrors([...[...compiled.values()].flatMap(file => file.errors), ...document.errors]);
+        return { document, settings: JSON.stringify({ page, ...options }), sandbox: options.security.sandbox.join(' ') };
+      })
     ),
-    { initialValue: this.buildIframeContent(this.files()) }
+    { initialValue: null }
   );
+  iframeSrcDoc = signal('');
+  /** Reload the preview when HTML or scripts change; otherwise it waits for a manual refresh. */
+  autoReloadPreview = signal<boolean>(this.loadFromStorage(this.AUTO_RELOAD_STORAGE_KEY, true));
+  /** The code changed since the preview was loaded and it's waiting for a manual refresh. */
+  previewReloadPending = signal(false);
+  // The document the preview was loaded from, with the page, mocks and pixel ratio it was built for.
+  private loadedPreview: { document: PreviewDocument; settings: string } | null = null;
+  /** The preview opened in a window of its own; it runs alongside the docked one and shows the same document. */
+  private detachedPreview: { window: Window; frame: HTMLIFrameElement } | null = null;
+  isPreviewDetached = signal(false);
+  private shownStyles = '';
+  private forcePreviewReload = false;
+  // Build errors already shown in the console, so rebuilding unchanged code doesn't repeat them.
+  private reportedBuildErrors = new Set<string>();
   
   // Console state
   consoleLogs = signal<ConsoleLog[]>([]);
+  networkRequests = signal<NetworkRequest[]>([]);
+  mocksEnabled = signal<boolean>(this.loadFromStorage(this.MOCKS_ENABLED_STORAGE_KEY, true));
+  hasMocksFile = computed(() => this.files().some(f => f.name === MOCKS_FILE));
+  /** Position opened from the console, marked in the editor while its file is shown. */
+  editorErrorLocation = signal<SourceLocation | null>(null);
+  /** Position of an element or CSS rule picked in the preview, highlighted while its file is shown. */
+  editorRevealLocation = signal<SourceLocation | null>(null);
+  /** Element picker: hovering the preview outlines elements and clicking one selects it. */
+  isInspecting = signal(false);
+  inspectedElement = signal<InspectedElement | null>(null);
+  preserveConsoleLog = signal<boolean>(this.loadFromStorage(this.PRESERVE_LOG_STORAGE_KEY, false));
+  private nextReplRequestId = 0;
+  private pendingCompletions = new Map<number, (items: string[]) => void>();
+  private pendingProperties = new Map<number, (properties: RemoteProperty[]) => void>();
+  // Handles of logged objects are numbered by each preview on its own, so the console gets
+  // editor-wide handles that remember which preview the object lives in.
+  private remoteHandles = new Map<string, number>();
+  private remoteObjects = new Map<number, { target: PreviewTarget; id: number }>();
 
   // AI Assistant State
   aiPrompt = signal<string>('');
   isAiLoading = signal<boolean>(false);
   isAiApplyingEdits = signal<boolean>(false);
+  /** The answer streaming in; it joins the thread once it's complete or cancelled. */
   aiExplanation = signal<string>('');
   aiError = signal<string>('');
-  selectedModel = signal<GeminiModel>('gemini-2.5-flash');
-  availableModels: GeminiModel[] = ['gemini-2.5-flash', 'gemini-1.5-pro', 'gemini-1.5-flash'];
+  /** Conversations with the assistant, most recently active first. */
+  aiThreads = signal(this.initialProjectState.aiThreads);
+  /** The thread shown in the assistant; null starts a new one with the next request. */
+  activeAiThreadId = signal<string | null>(this.initialProjectState.activeAiThread);
+  activeAiThread = computed(() => this.aiThreads().find(t => t.id === this.activeAiThreadId()) ?? null);
+  aiReview = signal<AiReview | null>(null);
+  /** Set while the last applied AI change can be undone. */
+  aiUndo = signal<AiUndo | null>(null);
+  aiProviderLabel = computed(() => getProviderInfo(this.aiSettings().provider).label);
+  aiModel = computed(() => this.aiSettings().providers[this.aiSettings().provider].model);
+  /** The models to pick from in the assistant, including one typed into the settings by hand. */
+  aiModels = computed(() => {
+    const { models, model } = this.aiSettings().providers[this.aiSettings().provider];
+    return !model || models.includes(model) ? models : [model, ...models];
+  });
+  private readonly AI_THREAD_LIMIT = 30;
+  // Earlier requests sent along with a new one, each with its answer.
+  private readonly AI_CONTEXT_EXCHANGES = 10;
+  private aiRequest: AbortController | null = null;
   
   // Command Palette
   isCommandPaletteOpen = signal(false);
@@ -138,19 +415,35 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   private allCommands: Command[] = [
     { id: 'toggleTheme', name: '> Тема: Переключить Светлую/Темную тему', action: () => this.toggleTheme() },
     { id: 'newFile', name: '> Файл: Создать новый файл', action: () => this.startCreatingFile() },
+    { id: 'newFolder', name: '> Файл: Создать новую папку', action: () => this.startCreatingFolder() },
+    { id: 'renameFile', name: '> Файл: Переименовать или переместить текущий файл', action: () => this.startRenameActiveFile() },
     { id: 'formatDocument', name: '> Редактор: Форматировать документ', action: () => this.formatActiveFile() },
     { id: 'toggleConsole', name: '> Вид: Открыть/Закрыть консоль', action: () => this.isConsoleVisible.update(v => !v) },
+    { id: 'newProject', name: '> Проект: Создать новый проект', action: () => this.createProject() },
+    { id: 'switchProject', name: '> Проект: Переключить проект', action: () => this.activeView.set('projects') },
+    { id: 'exportZip', name: '> Проект: Экспортировать как .zip', action: () => this.exportProjectZip() },
+    { id: 'importZip', name: '> Проект: Импортировать .zip', action: () => this.zipUploadInput?.nativeElement.click() },
+    { id: 'savePoint', name: '> История: Создать точку сохранения', action: () => this.createSavePoint() },
+    { id: 'openHistory', name: '> Перейти: История файла', action: () => this.activeView.set('history') },
     { id: 'openExplorer', name: '> Перейти: Проводник', action: () => this.activeView.set('explorer') },
     { id: 'openAiAssistant', name: '> Перейти: AI Помощник', action: () => this.setActiveAiView('ai') },
+    { id: 'undoAiChange', name: '> AI: Отменить последнее изменение', action: () => this.undoAiChange() },
     { id: 'openAiSearch', name: '> Перейти: AI-исследователь', action: () => this.setActiveAiView('search') },
     { id: 'openImageAnalyzer', name: '> Перейти: Анализатор изображений', action: () => this.activeView.set('image-analyzer') },
     { id: 'openSettings', name: '> Перейти: Настройки', action: () => this.activeView.set('settings') },
   ];
   
+  private projectCommands = computed<Command[]>(() =>
+    this.projectService.projects()
+      .filter(p => p.id !== this.projectService.activeProjectId())
+      .map(p => ({ id: `openProject:${p.id}`, name: `> Проект: Открыть «${p.name}»`, action: () => this.switchProject(p.id) }))
+  );
+
   filteredCommands = computed(() => {
+    const commands = [...this.allCommands, ...this.projectCommands()];
     const term = this.commandPaletteSearch().toLowerCase().replace('>', '').trim();
-    if (!term) return this.allCommands;
-    return this.allCommands.filter(cmd => cmd.name.toLowerCase().includes(term));
+    if (!term) return commands;
+    return commands.filter(cmd => cmd.name.toLowerCase().includes(term));
   });
 
   // AI Context Menu
@@ -160,12 +453,35 @@ export class AppComponent implements AfterViewInit, OnDestroy {
 
 
   constructor() {
-    effect(() => this.saveToStorage(this.FILES_STORAGE_KEY, JSON.stringify(this.files())));
+    effect(() => this.projectService.saveProjectState({
+        files: this.files(),
+        folders: this.folders(),
+        openFiles: this.openFiles().map(f => f.name),
+        activeFile: this.activeFile()?.name ?? null,
+        aiThreads: this.aiThreads(),
+        activeAiThread: this.activeAiThreadId(),
+        entryPage: this.entryPage(),
+        device: this.previewDevice(),
+        previewSecurity: this.previewSecurity(),
+    }));
     effect(() => this.saveToStorage(this.THEME_STORAGE_KEY, JSON.stringify(this.theme())));
+    effect(() => this.saveToStorage(this.PRESERVE_LOG_STORAGE_KEY, JSON.stringify(this.preserveConsoleLog())));
+    effect(() => this.saveToStorage(this.MOCKS_ENABLED_STORAGE_KEY, JSON.stringify(this.mocksEnabled())));
+    effect(() => this.saveToStorage(this.AUTO_RELOAD_STORAGE_KEY, JSON.stringify(this.autoReloadPreview())));
     effect(() => {
-        const key = this.apiKey();
-        this.saveToStorage(this.API_KEY_STORAGE_KEY, JSON.stringify(key));
-        this.geminiService.setApiKey(key);
+      const build = this.previewBuild();
+      if (build) untracked(() => this.showPreview(build.document, build.settings, build.sandbox));
+    });
+    effect(() => {
+      const html = this.iframeSrcDoc();
+      untracked(() => {
+        if (this.detachedPreview) this.detachedPreview.frame.srcdoc = html;
+      });
+    });
+    effect(() => {
+        const settings = this.aiSettings();
+        this.saveToStorage(this.AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+        this.aiService.configure(settings);
     });
     
     // Effect to handle pane visibility changes AFTER initial setup
@@ -173,24 +489,73 @@ export class AppComponent implements AfterViewInit, OnDestroy {
         this.updateSplitVisibility();
     });
     
-    // Effect to focus input when creating a file
+    // Effect to focus input when creating a file or folder
     effect(() => {
-        if (this.isCreatingFile()) {
+        if (this.creatingItem()) {
             setTimeout(() => this.newFileInput?.nativeElement.focus(), 0);
         }
     });
 
-    // Initial API Key setup
-    this.geminiService.setApiKey(this.apiKey());
+    // Effect to focus and select the name when renaming
+    effect(() => {
+        if (this.renamingPath()) {
+            setTimeout(() => {
+                const input = this.renameInput?.nativeElement;
+                input?.focus();
+                input?.setSelectionRange(input.value.lastIndexOf('/') + 1, input.value.length);
+            }, 0);
+        }
+    });
+
+    // Release blob URLs of assets that were deleted, replaced or belong to another project
+    effect(() => this.assetService.releaseUnused(this.files()));
+
+    // The error and reveal marks only last while their file stays open in the editor
+    effect(() => {
+        const path = this.activeFile()?.name;
+        if (untracked(() => this.editorErrorLocation())?.path !== path) {
+            this.editorErrorLocation.set(null);
+        }
+        if (untracked(() => this.editorRevealLocation())?.path !== path) {
+            this.editorRevealLocation.set(null);
+        }
+    });
+
+    effect(() => this.previewChannel.post({ type: 'SET_INSPECT', payload: { enabled: this.isInspecting() } }));
+
+    // Keep the latest message of the AI thread in view
+    effect(() => {
+        this.activeAiThread();
+        this.aiExplanation();
+        setTimeout(() => {
+            const transcript = this.aiTranscript?.nativeElement;
+            if (transcript) transcript.scrollTop = transcript.scrollHeight;
+        }, 0);
+    });
+
+    // Initial AI provider setup
+    this.aiService.configure(this.aiSettings());
+    this.historyService.setBaseline(this.files());
   }
 
   ngAfterViewInit(): void {
     // Defer split initialization until after the view is stable
     setTimeout(() => this.setupSplits(), 100);
+    this.historyTimer = setInterval(() => this.historyService.snapshotChangedFiles(this.files()), this.HISTORY_SNAPSHOT_INTERVAL_MS);
+    this.previewResizeObserver = new ResizeObserver(([entry]) => {
+      this.previewViewportSize.set({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    this.previewResizeObserver.observe(this.previewViewport.nativeElement);
+    const preview = this.previewIframe.nativeElement.contentWindow;
+    if (preview) this.previewChannel.register('docked', preview);
   }
 
   ngOnDestroy(): void {
     this.destroySplits();
+    clearInterval(this.historyTimer);
+    this.previewResizeObserver?.disconnect();
+    this.previewChannel.unregister('docked');
+    this.attachPreview();
   }
   
   // --- Storage Management ---
@@ -198,7 +563,7 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     try {
       localStorage.setItem(key, value);
     } catch(e) {
-      console.error("Failed to save to localStorage", e);
+      this.storageService.reportWriteError(e);
     }
   }
   
@@ -340,14 +705,30 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     );
   }
   
-  setActiveFile(file: File) {
-    if (!this.openFiles().some(f => f.name === file.name)) {
-        this.openFiles.update(files => [...files, file]);
+  setActiveFile(file: ProjectFile) {
+    // Tabs may hold an outdated copy of the file, so always open the current version.
+    const current = this.files().find(f => f.name === file.name) ?? file;
+    if (!this.openFiles().some(f => f.name === current.name)) {
+        this.openFiles.update(files => [...files, current]);
+    }
+    this.activeFile.set(current);
+  }
+
+  /** Points tabs and the active file at the current file objects after content was changed outside the editor. */
+  private refreshOpenFiles() {
+    const current = (file: ProjectFile) => this.files().find(f => f.name === file.name) ?? file;
+    this.openFiles.update(files => files.map(current));
+    const active = this.activeFile();
+    if (active) {
+        this.activeFile.set(current(active));
     }
-    this.activeFile.set(file);
   }
 
-  closeFile(fileToClose: File, event: MouseEvent) {
+  fileBasename(path: string): string {
+    return basename(path);
+  }
+
+  closeFile(fileToClose: ProjectFile, event: MouseEvent) {
     event.stopPropagation();
     const openFiles = this.openFiles();
     const currentIndex = openFiles.findIndex(f => f.name === fileToClose.name);
@@ -367,37 +748,63 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     this.openFiles.set(newOpenFiles);
   }
 
-  startCreatingFile() {
-    this.isCreatingFile.set(true);
+  startCreatingFile(parent = '') {
+    this.startCreatingItem('file', parent);
+  }
+
+  startCreatingFolder(parent = '') {
+    this.startCreatingItem('folder', parent);
   }
 
-  cancelCreateFile() {
-    this.isCreatingFile.set(false);
-    this.newFileName.set('');
+  private startCreatingItem(kind: 'file' | 'folder', parent: string) {
+    this.activeView.set('explorer');
+    this.expandFolder(parent);
+    this.newItemName.set('');
+    this.creatingItem.set({ kind, parent });
   }
 
-  confirmCreateFile() {
-    const fileName = this.newFileName().trim();
-    if (!fileName) {
-        this.cancelCreateFile();
+  cancelCreateItem() {
+    this.creatingItem.set(null);
+    this.newItemName.set('');
+  }
+
+  confirmCreateItem() {
+    const item = this.creatingItem();
+    const name = this.newItemName().trim();
+    if (!item || !name) {
+        this.cancelCreateItem();
         return;
     }
-    if (!fileName.match(this.SUPPORTED_EXTENSIONS_REGEX)) {
-        alert(`Неверное имя файла. Используйте: ${this.SUPPORTED_EXTENSIONS_USER_MSG}`);
+    const path = normalizePath(joinPath(item.parent, name));
+    if (!path) {
+        alert('Недопустимый путь.');
         return;
     }
-    if (this.files().some(f => f.name === fileName)) {
-        alert('Файл с таким именем уже существует.');
+    if (this.pathExists(path)) {
+        alert('Файл или папка с таким именем уже существует.');
         return;
     }
-    const language = fileName.split('.').pop() as EditorType;
-    const newFile: File = { name: fileName, content: ``, language };
-    this.files.update(files => [...files, newFile]);
-    this.setActiveFile(newFile);
-    this.cancelCreateFile();
+    if (getParentFolders(path).some(folder => this.files().some(f => f.name === folder))) {
+        alert('Нельзя создать элемент внутри файла.');
+        return;
+    }
+
+    if (item.kind === 'folder') {
+        this.folders.update(folders => [...folders, path]);
+    } else {
+        if (!path.match(this.SUPPORTED_EXTENSIONS_REGEX)) {
+            alert(`Неверное имя файла. Используйте: ${this.SUPPORTED_EXTENSIONS_USER_MSG}`);
+            return;
+        }
+        const newFile: ProjectFile = { name: path, content: ``, language: getExtension(path) as EditorType };
+        this.files.update(files => [...files, newFile]);
+        this.setActiveFile(newFile);
+    }
+    getParentFolders(path).forEach(folder => this.expandFolder(folder));
+    this.cancelCreateItem();
   }
 
-  deleteFile(fileToDelete: File, event: MouseEvent) {
+  async deleteFile(fileToDelete: ProjectFile, event: MouseEvent) {
     event.stopPropagation();
     if (!confirm(`Вы уверены, что хотите удалить ${fileToDelete.name}? Это действие необратимо.`)) return;
 
@@ -407,6 +814,185 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     }
 
     this.files.update(files => files.filter(f => f.name !== fileToDelete.name));
+    await this.updateHistory(this.historyService.deletePath(fileToDelete.name));
+  }
+
+  async deleteFolder(folder: string, event: MouseEvent) {
+    event.stopPropagation();
+    const contained = this.files().filter(f => isInFolder(f.name, folder));
+    const details = contained.length > 0 ? ` и все файлы в ней (${contained.length})` : '';
+    if (!confirm(`Вы уверены, что хотите удалить папку ${folder}${details}? Это действие необратимо.`)) return;
+
+    const mockEvent = { stopPropagation: () => {} } as MouseEvent;
+    for (const file of this.openFiles().filter(f => isInFolder(f.name, folder))) {
+        this.closeFile(file, mockEvent);
+    }
+
+    this.files.update(files => files.filter(f => !isInFolder(f.name, folder)));
+    this.folders.update(folders => folders.filter(f => !isInFolder(f, folder)));
+    this.collapsedFolders.update(collapsed => new Set([...collapsed].filter(f => !isInFolder(f, folder))));
+    await this.updateHistory(this.historyService.deletePath(folder));
+  }
+
+  toggleFolder(folder: string) {
+    this.collapsedFolders.update(collapsed => {
+        const next = new Set(collapsed);
+        if (!next.delete(folder)) next.add(folder);
+        return next;
+    });
+  }
+
+  private expandFolder(folder: string) {
+    if (!this.collapsedFolders().has(folder)) return;
+    this.toggleFolder(folder);
+  }
+
+  private pathExists(path: string): boolean {
+    return this.files().some(f => f.name === path) || this.allFolders().has(path);
+  }
+
+  // --- Explorer Drag & Drop ---
+  onExplorerDragStart(event: DragEvent, path: string) {
+    event.stopPropagation();
+    this.draggedPath = path;
+    if (event.dataTransfer) {
+        event.dataTransfer.effectAllowed = 'move';
+        event.dataTransfer.setData('text/plain', path);
+    }
+  }
+
+  onExplorerDragOver(event: DragEvent, targetFolder: string) {
+    if (!this.draggedPath) return;
+    event.preventDefault();
+    event.stopPropagation();
+    this.dropTargetFolder.set(targetFolder);
+  }
+
+  async onExplorerDrop(event: DragEvent, targetFolder: string) {
+    event.preventDefault();
+    event.stopPropagation();
+    const source = this.draggedPath;
+    this.onExplorerDragEnd();
+    if (source) {
+        await this.moveItem(source, targetFolder);
+    }
+  }
+
+  onExplorerDragEnd() {
+    this.draggedPath = null;
+    this.dropTargetFolder.set(null);
+  }
+
+  async moveItem(source: string, targetFolder: string) {
+    if (dirname(source) === targetFolder) return;
+    await this.requestRelocation(source, joinPath(targetFolder, basename(source)));
+    this.expandFolder(targetFolder);
+  }
+
+  // --- Rename ---
+  startRename(path: string, event?: Event) {
+    event?.stopPropagation();
+    this.activeView.set('explorer');
+    getParentFolders(path).forEach(folder => this.expandFolder(folder));
+    this.renameValue.set(path);
+    this.renamingPath.set(path);
+  }
+
+  startRenameActiveFile() {
+    const active = this.activeFile();
+    if (active) {
+        this.startRename(active.name);
+    }
+  }
+
+  cancelRename() {
+    this.renamingPath.set(null);
+    this.renameValue.set('');
+  }
+
+  async confirmRename() {
+    const from = this.renamingPath();
+    const to = normalizePath(this.renameValue());
+    this.cancelRename();
+    if (!from || to === from) return;
+    if (!to) {
+        alert('Недопустимый путь.');
+        return;
+    }
+    await this.requestRelocation(from, to);
+  }
+
+  /** Validates a rename or move, then previews reference updates if other files point at the moved paths. */
+  private async requestRelocation(from: string, to: string) {
+    const isFolder = !this.files().some(f => f.name === from);
+    if (isFolder && isInFolder(to, from)) {
+        alert('Нельзя переместить папку внутрь самой себя.');
+        return;
+    }
+    if (this.pathExists(to)) {
+        alert(`${to} уже существует.`);
+        return;
+    }
+    if (getParentFolders(to).some(folder => this.files().some(f => f.name === folder))) {
+        alert('Нельзя создать элемент внутри файла.');
+        return;
+    }
+    if (!isFolder && (this.getFileLanguage(to) === 'binary') !== isAssetPath(from)) {
+        alert(isAssetPath(from)
+            ? `Неверное имя файла. Используйте: ${this.ASSET_EXTENSIONS_USER_MSG}`
+            : `Неверное имя файла. Используйте: ${this.SUPPORTED_EXTENSIONS_USER_MSG}`);
+        return;
+    }
+
+    const renames = new Map(this.files().filter(f => isInFolder(f.name, from)).map(f => [f.name, rebasePath(f.name, from, to)]));
+    const updates = updateReferences(this.files(), renames);
+    if (updates.length === 0) {
+        await this.relocatePath(from, to);
+    } else {
+        this.renamePreview.set({ from, to, updates });
+    }
+  }
+
+  async confirmRenamePreview(rewriteReferences: boolean) {
+    const preview = this.renamePreview();
+    this.renamePreview.set(null);
+    if (!preview) return;
+    const relocated = this.relocatePath(preview.from, preview.to);
+    if (rewriteReferences) {
+        for (const update of preview.updates) {
+            this.updateFileContent(update.path, update.content);
+        }
+        this.refreshOpenFiles();
+    }
+    await relocated;
+  }
+
+  /**
+   * Moves a file or a whole folder to a new path, keeping open tabs, the active file and the local
+   * history in sync. Resolves once the history has moved along; a failure to move it is reported,
+   * not thrown.
+   */
+  private relocatePath(from: string, to: string): Promise<void> {
+    const relocate = (path: string) => isInFolder(path, from) ? rebasePath(path, from, to) : path;
+    // A renamed file may change its extension, and with it the language.
+    const relocateFile = (file: ProjectFile): ProjectFile => {
+        if (!isInFolder(file.name, from)) return file;
+        const name = relocate(file.name);
+        return { ...file, name, language: this.getFileLanguage(name) ?? file.language };
+    };
+
+    this.files.update(files => files.map(relocateFile));
+    this.folders.update(folders => folders.map(relocate));
+    this.collapsedFolders.update(collapsed => new Set([...collapsed].map(relocate)));
+    this.openFiles.update(files => files.map(relocateFile));
+    this.entryPage.update(page => page && relocate(page));
+    this.navigatedPage.update(page => page && relocate(page));
+    this.previewBackStack.update(stack => stack.map(relocate));
+    const active = this.activeFile();
+    if (active) {
+        this.activeFile.set(relocateFile(active));
+    }
+    return this.updateHistory(this.historyService.movePath(from, to));
   }
 
   handleFileUpload(event: Event) {
@@ -414,105 +1000,553 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     if (!input.files) return;
 
     for (const file of Array.from(input.files)) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const content = e.target?.result as string;
-            const name = file.name;
-            if (this.files().some(f => f.name === name)) {
-                if (!confirm(`Файл ${name} уже существует. Перезаписать?`)) return;
-                this.files.update(files => files.filter(f => f.name !== name));
+        // Folder uploads carry the path inside the chosen folder in webkitRelativePath.
+        const name = normalizePath(file.webkitRelativePath || file.name);
+        if (!name) continue;
+        const language = this.getFileLanguage(name);
+        if (!language) {
+            alert(`Файл ${name} имеет неподдерживаемое расширение.`);
+            continue;
+        }
+        if (language === 'binary') {
+            if (file.size > this.MAX_ASSET_SIZE) {
+                alert(`Файл ${name} слишком большой (максимум 5 МБ).`);
+                continue;
             }
-             const language = name.split('.').pop() as EditorType;
-             if (!this.SUPPORTED_EXTENSIONS.includes(language)) {
-                alert(`Файл ${name} имеет неподдерживаемое расширение.`);
-                return;
-             }
-            const newFile: File = { name, content, language };
-            this.files.update(files => [...files, newFile]);
-            this.setActiveFile(newFile);
-        };
+            // Re-wrap to drop the File metadata and to fix the MIME type by extension.
+            this.addUploadedFile({ name, content: '', language, blob: new Blob([file], { type: getAssetMimeType(name) }) });
+            continue;
+        }
+        const reader = new FileReader();
+        reader.onload = (e) => this.addUploadedFile({ name, content: e.target?.result as string, language });
         reader.readAsText(file);
     }
     input.value = ''; // Reset input
   }
 
-  private getConsoleInterceptorScript(): string {
-    return `
-      const originalConsole = { ...window.console };
-      const postLog = (type, args) => {
+  private addUploadedFile(newFile: ProjectFile) {
+    if (this.files().some(f => f.name === newFile.name)) {
+        if (!confirm(`Файл ${newFile.name} уже существует. Перезаписать?`)) return;
+        this.files.update(files => files.filter(f => f.name !== newFile.name));
+    }
+    this.files.update(files => [...files, newFile]);
+    this.setActiveFile(newFile);
+  }
+
+  /** Maps a path to the language of its file: an editor type, 'binary' for assets, or null if unsupported. */
+  private getFileLanguage(path: string): FileLanguage | null {
+    const extension = getExtension(path) as EditorType;
+    if (this.SUPPORTED_EXTENSIONS.includes(extension)) return extension;
+    return isAssetPath(path) ? 'binary' : null;
+  }
+
+  assetUrl(file: ProjectFile): string | null {
+    return file.blob && getAssetKind(file.name) === 'image' ? this.assetService.getUrl(file.blob) : null;
+  }
+
+  // --- Local History ---
+  createSavePoint() {
+    const file = this.activeFile();
+    if (!file || file.language === 'binary') return;
+    this.historyService.addSnapshot(file.name, this.activeFileContent(), 'manual');
+  }
+
+  /** The file change behind a history update stands even if the update fails, so failures are only reported. */
+  private async updateHistory(update: Promise<void>) {
+    try {
+      await update;
+    } catch (e) {
+      this.storageService.reportWriteError(e);
+    }
+  }
+
+  async restoreSnapshot(snapshot: FileSnapshot) {
+    const file = this.files().find(f => f.name === snapshot.path);
+    if (!file) {
+      alert(`Файл ${snapshot.path} больше не существует.`);
+      return;
+    }
+    await this.historyService.addSnapshot(file.name, file.content, 'restore');
+    this.updateFileContent(file.name, snapshot.content);
+    this.setActiveFile(file);
+  }
+
+  // --- ZIP Import / Export ---
+  async exportProjectZip() {
+    const encoder = new TextEncoder();
+    const files = await Promise.all(this.files().map(async f => ({
+      path: f.name,
+      data: f.blob ? new Uint8Array(await f.blob.arrayBuffer()) : encoder.encode(f.content),
+    })));
+    const zip = createZip(files, [...this.allFolders()]);
+    const projectName = this.projectService.activeProject()?.name ?? 'project';
+    downloadBlob(zip, `${projectName}.zip`, 'application/zip');
+  }
+
+  async handleZipUpload(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const archive = input.files?.[0];
+    input.value = ''; // Reset input
+    if (!archive) return;
+
+    let contents;
+    try {
+      contents = readZip(new Uint8Array(await archive.arrayBuffer()));
+    } catch (e) {
+      console.error('Failed to read ZIP archive', e);
+      alert(`Не удалось прочитать архив ${archive.name}.`);
+      return;
+    }
+
+    const plan: ZipImportPlan = { archiveName: archive.name, files: [], folders: [], conflicts: [], skipped: [] };
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    const isBlockedByFile = (path: string) => getParentFolders(path).some(folder => this.files().some(f => f.name === folder));
+
+    for (const path of contents.oversized) {
+      plan.skipped.push({ path, reason: 'слишком большой файл' });
+    }
+    for (const folder of contents.folders) {
+      const path = normalizePath(folder);
+      if (path && !isBlockedByFile(path) && !this.files().some(f => f.name === path)) {
+        plan.folders.push(path);
+      }
+    }
+    for (const entry of contents.files) {
+      const path = normalizePath(entry.path);
+      if (!path) {
+        plan.skipped.push({ path: entry.path, reason: 'недопустимый путь' });
+        continue;
+      }
+      const language = this.getFileLanguage(path);
+      if (!language) {
+        plan.skipped.push({ path, reason: 'неподдерживаемое расширение' });
+        continue;
+      }
+      if (isBlockedByFile(path) || this.allFolders().has(path)) {
+        plan.skipped.push({ path, reason: 'путь занят' });
+        continue;
+      }
+      if (language === 'binary') {
+        plan.files.push({ path, content: '', blob: new Blob([entry.data], { type: getAssetMimeType(path) }) });
+      } else {
         try {
-          // Serialize arguments for posting
-          const serializedArgs = args.map(arg => {
-            if (arg instanceof Error) {
-              return { __error: true, message: arg.message, stack: arg.stack };
-            }
-            try {
-                // Attempt to stringify, handle circular references
-                return JSON.parse(JSON.stringify(arg, (key, value) => {
-                    return typeof value === 'bigint' ? value.toString() + 'n' : value;
-                }));
-            } catch (e) {
-                return 'Unserializable Object';
-            }
-          });
-          window.parent.postMessage({ type: 'CONSOLE_LOG', payload: { type, data: serializedArgs, timestamp: new Date().toISOString() } }, '*');
-        } catch (e) {
-          originalConsole.error('Error posting log to parent:', e);
+          plan.files.push({ path, content: decoder.decode(entry.data) });
+        } catch {
+          plan.skipped.push({ path, reason: 'не текстовый файл' });
+          continue;
         }
-      };
+      }
+      if (this.files().some(f => f.name === path)) {
+        plan.conflicts.push(path);
+      }
+    }
 
-      window.console.log = (...args) => { originalConsole.log(...args); postLog('log', args); };
-      window.console.warn = (...args) => { originalConsole.warn(...args); postLog('warn', args); };
-      window.console.error = (...args) => { originalConsole.error(...args); postLog('error', args); };
-      window.console.info = (...args) => { originalConsole.info(...args); postLog('info', args); };
-      window.console.debug = (...args) => { originalConsole.debug(...args); postLog('debug', args); };
+    if (plan.conflicts.length > 0 || plan.skipped.length > 0) {
+      this.zipImportPlan.set(plan);
+    } else {
+      this.applyZipImport(plan, {});
+    }
+  }
 
-      window.addEventListener('error', event => {
-        postLog('error', [event.message]);
-      });
-      window.addEventListener('unhandledrejection', event => {
-        postLog('error', ['Unhandled promise rejection:', event.reason]);
-      });
-    `;
-  }
-
-  private buildIframeContent(files: File[]): string {
-    const htmlFile = files.find(f => f.language === 'html');
-    const cssFile = files.find(f => f.language === 'css');
-    const jsFile = files.find(f => f.language === 'js');
-    return `
-      <html>
-        <head>
-          <style>${cssFile?.content ?? ''}</style>
-          <script>${this.getConsoleInterceptorScript()}<\/script>
-        </head>
-        <body>
-          ${htmlFile?.content ?? '<!-- Создайте HTML файл для предпросмотра -->'}
-          <script>${jsFile?.content ?? ''}<\/script>
-        </body>
-      </html>
-    `;
+  confirmZipImport(resolutions: Record<string, ConflictResolution>) {
+    const plan = this.zipImportPlan();
+    this.zipImportPlan.set(null);
+    if (plan) {
+      this.applyZipImport(plan, resolutions);
+    }
   }
-  
+
+  private applyZipImport(plan: ZipImportPlan, resolutions: Record<string, ConflictResolution>) {
+    const files = [...this.files()];
+    const taken = new Set([...files.map(f => f.name), ...this.allFolders()]);
+
+    for (const entry of plan.files) {
+      const resolution = resolutions[entry.path] ?? 'overwrite';
+      if (taken.has(entry.path) && resolution === 'skip') continue;
+
+      const path = taken.has(entry.path) && resolution === 'rename' ? this.findFreePath(entry.path, taken) : entry.path;
+      const file: ProjectFile = { name: path, content: entry.content, language: this.getFileLanguage(path)!, blob: entry.blob };
+      const existingIndex = files.findIndex(f => f.name === path);
+      if (existingIndex === -1) {
+        files.push(file);
+      } else {
+        files[existingIndex] = file;
+      }
+      taken.add(path);
+    }
+
+    this.files.set(files);
+    this.folders.update(folders => [...new Set([...folders, ...plan.folders])]);
+    // Overwritten files may be open; make tabs and the editor show the imported content.
+    this.refreshOpenFiles();
+  }
+
+  /** Finds a name like `style (1).css` that isn't used yet. */
+  private findFreePath(path: string, taken: Set<string>): string {
+    const extension = getExtension(path);
+    const stem = extension ? path.slice(0, -(extension.length + 1)) : path;
+    let candidate = path;
+    for (let i = 1; taken.has(candidate); i++) {
+      candidate = extension ? `${stem} (${i}).${extension}` : `${stem} (${i})`;
+    }
+    return candidate;
+  }
+
   forcePreviewRefresh() {
+    this.forcePreviewReload = true;
     this.files.update(f => [...f]);
+    this.resetConsoleForReload(`Предпросмотр обновлён: ${this.currentPreviewPage() ?? ''}`);
+  }
+
+  setAutoReloadPreview(enabled: boolean) {
+    this.autoReloadPreview.set(enabled);
+    const build = this.previewBuild();
+    if (enabled && build && this.previewReloadPending()) this.showPreview(build.document, build.settings, build.sandbox);
+  }
+
+  /**
+   * Shows a new build of the preview. Changes to project stylesheets alone are pushed into the
+   * running page; other changes reload it, unless auto-reload is off and only the code changed.
+   */
+  private showPreview(document: PreviewDocument, settings: string, sandbox: string) {
+    const loaded = this.loadedPreview;
+    const force = this.forcePreviewReload;
+    this.forcePreviewReload = false;
+    const sameTarget = !force && loaded?.settings === settings;
+    if (sameTarget && (loaded.document.shell === document.shell || !this.autoReloadPreview())) {
+      this.previewReloadPending.set(loaded.document.shell !== document.shell);
+      const styles = JSON.stringify(document.styles);
+      if (styles !== this.shownStyles) {
+        this.shownStyles = styles;
+        this.previewChannel.post({ type: 'UPDATE_STYLES', payload: { styles: document.styles } });
+      }
+      return;
+    }
+
+    this.loadedPreview = { document, settings };
+    this.shownStyles = JSON.stringify(document.styles);
+    this.previewReloadPending.set(false);
+    this.previewSandbox = sandbox;
+    const frames = [this.previewIframe?.nativeElement, this.detachedPreview?.frame].filter(frame => !!frame);
+    frames.forEach(frame => frame.setAttribute('sandbox', sandbox));
+    if (this.iframeSrcDoc() === document.html) {
+      // Same document: the binding wouldn't set srcdoc again, and an isolated page can't be told to reload.
+      frames.forEach(frame => frame.srcdoc = document.html);
+    } else {
+      this.iframeSrcDoc.set(document.html);
+    }
+  }
+
+  setPreviewSecurity(security: PreviewSecurity) {
+    this.isPreviewSecurityDialogOpen.set(false);
+    this.previewSecurity.set(security);
+  }
+
+  detachPreview() {
+    if (this.detachedPreview) {
+      this.detachedPreview.window.focus();
+      return;
+    }
+    const popup = window.open('', 'ai-code-editor-preview', 'popup,width=1024,height=768');
+    if (!popup) {
+      alert('Не удалось открыть окно предпросмотра. Разрешите всплывающие окна для этого сайта.');
+      return;
+    }
+    popup.document.open();
+    popup.document.write(this.previewService.getDetachedWindowHtml());
+    popup.document.close();
+    popup.document.title = `Предпросмотр — ${this.projectService.activeProject()?.name ?? ''}`;
+    const frame = popup.document.querySelector('iframe')!;
+    frame.addEventListener('load', () => this.onPreviewLoad());
+    frame.setAttribute('sandbox', this.previewSandbox);
+    frame.srcdoc = this.iframeSrcDoc();
+    this.detachedPreview = { window: popup, frame };
+    this.previewChannel.register('detached', popup);
+    this.isPreviewDetached.set(true);
+  }
+
+  /** Closes the detached preview window, if there is one. */
+  attachPreview() {
+    const detached = this.detachedPreview;
+    if (!detached) return;
+    this.detachedPreview = null;
+    this.previewChannel.unregister('detached');
+    this.isPreviewDetached.set(false);
+    if (!detached.window.closed) detached.window.close();
+  }
+
+  // --- Console REPL ---
+  /** The REPL evaluates in the detached preview while it's open, as that's the one being watched. */
+  private get replTarget(): PreviewTarget {
+    return this.detachedPreview ? 'detached' : 'docked';
+  }
+
+  evaluateInPreview(code: string) {
+    this.consoleLogs.update(logs => [...logs, { type: 'input', data: [code], timestamp: new Date().toISOString() }]);
+    if (!this.previewChannel.post({ type: 'EVAL', payload: { id: this.nextReplRequestId++, code } }, this.replTarget)) {
+      this.consoleLogs.update(logs => [...logs, { type: 'error', data: ['Предпросмотр не загружен.'], timestamp: new Date().toISOString() }]);
+    }
+  }
+
+  /** Asks the preview for property names completing `expression`; resolves empty if the page doesn't answer. */
+  completeInPreview = (expression: string): Promise<string[]> => {
+    const id = this.nextReplRequestId++;
+    return new Promise(resolve => {
+      this.pendingCompletions.set(id, resolve);
+      if (!this.previewChannel.post({ type: 'COMPLETE', payload: { id, expression } }, this.replTarget)) {
+        this.pendingCompletions.delete(id);
+        resolve([]);
+        return;
+      }
+      setTimeout(() => {
+        this.pendingCompletions.delete(id);
+        resolve([]);
+      }, 1000);
+    });
+  };
+
+  /** Fetches the properties of a logged object from the preview; resolves empty if the page doesn't answer. */
+  inspectInPreview = (objectId: number): Promise<RemoteProperty[]> => {
+    const object = this.remoteObjects.get(objectId);
+    if (!object) return Promise.resolve([]);
+    const id = this.nextReplRequestId++;
+    return new Promise(resolve => {
+      this.pendingProperties.set(id, resolve);
+      if (!this.previewChannel.post({ type: 'GET_PROPERTIES', payload: { id, objectId: object.id } }, object.target)) {
+        this.pendingProperties.delete(id);
+        resolve([]);
+        return;
+      }
+      setTimeout(() => {
+        this.pendingProperties.delete(id);
+        resolve([]);
+      }, 1000);
+    });
+  };
+
+  /** Empties the console; build errors that still apply are shown again on the next build. */
+  clearConsole() {
     this.consoleLogs.set([]);
+    this.reportedBuildErrors.clear();
+    // Let the previews drop the objects they kept for inspecting the cleared messages.
+    this.previewChannel.post({ type: 'RELEASE_OBJECTS' });
+    this.remoteHandles.clear();
+    this.remoteObjects.clear();
   }
 
-  private loadFilesFromStorage(): File[] {
-    const storedFiles = localStorage.getItem(this.FILES_STORAGE_KEY);
-    if (storedFiles) {
-        try {
-          return JSON.parse(storedFiles);
-        } catch {
-          // Fallback to default if stored data is corrupted
+  /** Maps the script URLs in a message from the preview back to project files. */
+  private toConsoleLog(payload: Omit<ConsoleLog, 'source'> & { location?: { url: string; line: number; column: number } }, target: PreviewTarget): ConsoleLog {
+    const { location, ...log } = payload;
+    const source = location ? this.previewService.mapLocation(location.url, location.line, location.column) : null;
+    const data = log.data.map(value => typeof value === 'string' ? value : this.toRemoteValue(value, target));
+    const origin = target === 'detached' ? 'окно' : undefined;
+    return { ...log, data, ...(source && { source }), ...(origin && { origin }) };
+  }
+
+  /** Gives the objects in a value from a preview editor-wide handles and maps its stack traces. */
+  private toRemoteValue(value: RemoteValue, target: PreviewTarget): RemoteValue {
+    return mapRemoteText(mapRemoteIds(value, id => this.toRemoteHandle(target, id)), text => this.previewService.mapStackTrace(text));
+  }
+
+  private toRemoteHandle(target: PreviewTarget, id: number): number {
+    const key = `${target}:${id}`;
+    let handle = this.remoteHandles.get(key);
+    if (handle === undefined) {
+      handle = this.remoteObjects.size + 1;
+      this.remoteHandles.set(key, handle);
+      this.remoteObjects.set(handle, { target, id });
+    }
+    return handle;
+  }
+
+  openSourceLocation(location: SourceLocation) {
+    const file = this.files().find(f => f.name === location.path);
+    if (!file || file.language === 'binary') return;
+    this.setActiveFile(file);
+    this.editorErrorLocation.set({ ...location });
+  }
+
+  // --- Element picker ---
+  /** A reloaded preview starts without the picker, so it's turned back on if it was active. */
+  onPreviewLoad() {
+    if (this.isInspecting()) this.previewChannel.post({ type: 'SET_INSPECT', payload: { enabled: true } });
+  }
+
+  openInspectedElement(element: InspectedElement) {
+    if (element.page && element.location) this.revealInEditor({ path: element.page, ...element.location });
+  }
+
+  /** Opens the stylesheet of a rule at its selector, or at the top if the selector can't be found there. */
+  openInspectedRule(rule: InspectedRule) {
+    const page = this.inspectedElement()?.page;
+    if (rule.file) {
+      const stylesheets = this.files().filter(f => f.language === 'css' || f.language === 'scss');
+      // Rules of @import-ed stylesheets are inlined into the importing one, so other stylesheets are searched too.
+      for (const file of [...stylesheets.filter(f => f.name === rule.file), ...stylesheets.filter(f => f.name !== rule.file)]) {
+        const position = findCssRule(file.content, rule.selector);
+        if (position) {
+          this.revealInEditor({ path: file.name, ...position });
+          return;
         }
+      }
+      this.revealInEditor({ path: rule.file, line: 1, column: 1 });
+    } else if (rule.position && page) {
+      // A <style> element in the page: search its content only.
+      const content = this.files().find(f => f.name === page)?.content ?? '';
+      const start = content.indexOf('>', getOffset(content, rule.position)) + 1;
+      const end = content.toLowerCase().indexOf('</style', start);
+      const css = content.slice(start, end === -1 ? undefined : end);
+      const found = findCssRule(css, rule.selector);
+      const offset = start + (found ? getOffset(css, found) : 0);
+      this.revealInEditor({ path: page, ...getPosition(content, offset) });
+    }
+  }
+
+  private revealInEditor(location: SourceLocation) {
+    const file = this.files().find(f => f.name === location.path);
+    if (!file || file.language === 'binary') return;
+    this.setActiveFile(file);
+    this.editorRevealLocation.set({ ...location });
+  }
+
+  /** Clears the console for a preview reload, or just marks the reload if the log is preserved. */
+  private resetConsoleForReload(message: string) {
+    if (this.preserveConsoleLog()) {
+      this.consoleLogs.update(logs => [...logs, { type: 'navigation', data: [message], timestamp: new Date().toISOString() }]);
+    } else {
+      this.clearConsole();
+      this.networkRequests.set([]);
+    }
+  }
+
+  createMocksFile() {
+    if (this.hasMocksFile()) return;
+    const file: ProjectFile = { name: MOCKS_FILE, content: MOCKS_TEMPLATE, language: 'json' };
+    this.files.update(files => [...files, file]);
+    this.setActiveFile(file);
+    this.mocksEnabled.set(true);
+  }
+
+  /** Shows compile and module linking errors in the console. */
+  private reportBuildErrors(errors: CompileError[]) {
+    const reported = new Set<string>();
+    const logs: ConsoleLog[] = [];
+    for (const error of errors) {
+      const key = `${error.path}:${error.line}:${error.column}:${error.message}`;
+      reported.add(key);
+      if (this.reportedBuildErrors.has(key)) continue;
+      logs.push({
+        type: 'error',
+        data: [`Ошибка сборки ${error.path}:${error.line}:${error.column}\n${error.message}`],
+        timestamp: new Date().toISOString(),
+        source: { path: error.path, line: error.line, column: error.column },
+      });
+    }
+    this.reportedBuildErrors = reported;
+    if (logs.length > 0) {
+      this.consoleLogs.update(current => [...current, ...logs]);
+    }
+  }
+
+  // --- Preview Navigation ---
+  showPreviewPage(page: string) {
+    const current = this.currentPreviewPage();
+    if (page === current) return;
+    if (current) {
+      this.previewBackStack.update(stack => [...stack, current]);
+    }
+    this.navigatedPage.set(page);
+    this.resetConsoleForReload(`Переход на ${page}`);
+  }
+
+  previewGoBack() {
+    const stack = this.previewBackStack();
+    if (stack.length === 0) return;
+    this.previewBackStack.set(stack.slice(0, -1));
+    this.navigatedPage.set(stack[stack.length - 1]);
+    this.resetConsoleForReload(`Переход на ${stack[stack.length - 1]}`);
+  }
+
+  setEntryPage(page: string) {
+    this.entryPage.set(page);
+  }
+
+  private followPreviewLink(href: string) {
+    const from = this.currentPreviewPage() ?? '';
+    const page = this.previewService.resolvePage(this.files(), from, href);
+    if (page) {
+      this.showPreviewPage(page);
+    } else {
+      this.consoleLogs.update(logs => [...logs, { type: 'warn', data: [`Страница "${href}" не найдена в проекте (ссылка из ${from}).`], timestamp: new Date().toISOString() }]);
+    }
+  }
+
+  togglePreviewDevice() {
+    const device = this.previewDevice();
+    if (device) this.lastPreviewDevice = device;
+    this.previewDevice.set(device ? null : this.lastPreviewDevice);
+  }
+
+  private resetPreviewNavigation() {
+    this.navigatedPage.set(null);
+    this.previewBackStack.set([]);
+  }
+
+  // --- Projects ---
+  async switchProject(id: string) {
+    if (id === this.projectService.activeProjectId()) return;
+    this.applyProjectState(await this.projectService.openProject(id));
+    this.activeView.set('explorer');
+  }
+
+  async createProject(name = 'Новый проект') {
+    try {
+      const project = await this.projectService.createProject(name);
+      await this.switchProject(project.id);
+    } catch (e) {
+      console.error('Failed to create project', e);
+    }
+  }
+
+  async deleteProject(id: string) {
+    // The active project can't be deleted, so move to another one first.
+    if (id === this.projectService.activeProjectId()) {
+      const next = this.projectService.projects().find(p => p.id !== id);
+      if (!next) return;
+      await this.switchProject(next.id);
     }
-    return [
-        { name: 'index.html', content: `<h1>Привет, Мир!</h1>\n<p>Это ваш живой редактор кода.</p>\n<button onclick="logSomething()">Нажми меня</button>`, language: 'html' },
-        { name: 'style.css', content: `body { \n  font-family: sans-serif;\n  background: #ffffff;\n  padding: 1rem;\n}`, language: 'css' },
-        { name: 'script.js', content: `console.log('Скрипт загружен!');\n\nfunction logSomething() {\n  console.log('Кнопка была нажата в', new Date().toLocaleTimeString());\n  console.warn('Это предупреждение.');\n  console.error('А это — ошибка!');\n}`, language: 'js' },
-    ];
+    await this.projectService.deleteProject(id);
+  }
+
+  private applyProjectState(state: ProjectState) {
+    this.cancelCreateItem();
+    this.files.set(state.files);
+    this.historyService.setBaseline(state.files);
+    this.folders.set(state.folders);
+    this.collapsedFolders.set(new Set());
+    this.openFiles.set(this.resolveOpenFiles(state));
+    this.activeFile.set(state.files.find(f => f.name === state.activeFile) ?? this.openFiles()[0] ?? null);
+    this.aiThreads.set(state.aiThreads);
+    this.activeAiThreadId.set(state.activeAiThread);
+    this.entryPage.set(state.entryPage);
+    this.previewDevice.set(state.device);
+    this.previewSecurity.set(state.previewSecurity);
+    this.forcePreviewReload = true;
+    this.resetPreviewNavigation();
+    this.cancelAI();
+    this.aiReview.set(null);
+    this.aiUndo.set(null);
+    this.aiPrompt.set('');
+    this.aiExplanation.set('');
+    this.aiError.set('');
+    this.clearConsole();
+    this.networkRequests.set([]);
+  }
+
+  private resolveOpenFiles(state: Pick<ProjectState, 'files' | 'openFiles'>): ProjectFile[] {
+    return state.openFiles
+      .map(name => state.files.find(f => f.name === name))
+      .filter((file): file is ProjectFile => !!file);
   }
 
   // --- AI ---
@@ -522,69 +1556,302 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   }
 
   async askAI() {
-    if (!this.aiPrompt().trim()) return;
-    this.isAiLoading.set(true);
+    const prompt = this.aiPrompt().trim();
+    if (!prompt || this.isAiLoading() || this.isAiApplyingEdits() || this.aiReview()) return;
+    const history = getChatTurns(this.activeAiThread()?.messages ?? [], this.AI_CONTEXT_EXCHANGES);
+    const threadId = this.appendAiMessages(this.activeAiThread()?.id ?? null, createMessage('user', prompt));
+    this.aiPrompt.set('');
+    const signal = this.startAiRequest();
     this.isAiApplyingEdits.set(false);
-    this.aiExplanation.set('');
-    this.aiError.set('');
+    let explanation = '';
 
     try {
-      const htmlFile = this.files().find(f => f.language === 'html');
-      const cssFile = this.files().find(f => f.language === 'css');
-      const jsFile = this.files().find(f => f.language === 'js');
-
-      const response = await this.geminiService.getCodeModification(
-        htmlFile?.content ?? '',
-        cssFile?.content ?? '',
-        jsFile?.content ?? '',
-        this.aiPrompt(),
-        this.selectedModel()
-      );
-
-      const diffs: { fileName: string; after: string }[] = [];
-      
-      if (response.html && response.html !== (htmlFile?.content ?? '')) {
-        diffs.push({ fileName: htmlFile?.name ?? 'index.html', after: response.html });
+      // Binary assets are listed by path only, so the model knows of them without their bytes.
+      const files: AiProjectFile[] = this.files().map(f => ({ path: f.name, content: f.language === 'binary' ? null : f.content }));
+
+      let response: AiCodeResponse | null = null;
+      const updates = this.aiService.streamCodeModification(files, prompt, history, signal);
+      for await (const update of updates) {
+        if (signal.aborted) break;
+        explanation = update.explanation;
+        this.aiExplanation.set(explanation);
+        response = update.response;
+      }
+      // Cancelled part-way, the JSON is incomplete: its code may be cut off, so none of it is applied.
+      if (signal.aborted || !response) {
+        this.appendAiMessages(threadId, createMessage('model', explanation, { cancelled: true }));
+        return;
       }
-      if (response.css && response.css !== (cssFile?.content ?? '')) {
-        diffs.push({ fileName: cssFile?.name ?? 'style.css', after: response.css });
+
+      const changes = this.planAiChanges(response.operations);
+      if (changes.length === 0) {
+        this.appendAiMessages(threadId, createMessage('model', `${response.explanation}\n\n(Изменений в коде не предложено)`));
+        return;
       }
-      if (response.js && response.js !== (jsFile?.content ?? '')) {
-         diffs.push({ fileName: jsFile?.name ?? 'script.js', after: response.js });
+      // The answer joins the thread right away; what became of its changes is recorded after the review.
+      const message = createMessage('model', response.explanation);
+      const reviewThreadId = this.appendAiMessages(threadId, message);
+      if (reviewThreadId) {
+        this.aiReview.set({ threadId: reviewThreadId, messageId: message.id, changes });
       }
-      
-      if (diffs.length > 0) {
-        this.isAiLoading.set(false);
-        this.isAiApplyingEdits.set(true);
-
-        for (const diff of diffs) {
-            const fileToUpdate = this.files().find(f => f.name === diff.fileName);
-            if (fileToUpdate) {
-                this.setActiveFile(fileToUpdate);
-                await new Promise(r => setTimeout(r, 50)); // Allow editor to switch
-                
-                if (this.editorComponent) {
-                    await this.editorComponent.applyChangesWithAnimation(diff.after);
-                }
-                this.updateFileContent(diff.fileName, diff.after);
+
+    } catch (err) {
+      if (signal.aborted) {
+        this.appendAiMessages(threadId, createMessage('model', explanation, { cancelled: true }));
+      } else {
+        this.aiError.set(err instanceof Error ? err.message : 'Произошла ошибка при обращении к AI.');
+        console.error(err);
+        // The request stays in the thread unanswered; it's offered again for another try.
+        if (!this.aiPrompt()) this.aiPrompt.set(prompt);
+      }
+    } finally {
+      this.finishAiRequest(signal);
+    }
+  }
+
+  /** Pairs each proposed operation with the text it changes, as the operations before it in the answer leave it. */
+  private planAiChanges(operations: AiFileOperation[]): AiProposedChange[] {
+    const texts = new Map(this.files().map(f => [f.name, f.language === 'binary' ? null : f.content]));
+    const changes: AiProposedChange[] = [];
+    for (let operation of operations) {
+        const text = texts.get(operation.path);
+        // Models sometimes "create" a file that's already there; that's a rewrite of it.
+        if (operation.type === 'create' && typeof text === 'string') {
+            operation = { ...operation, type: 'modify' };
+        }
+        if (operation.type === 'modify' && text === operation.content) continue;
+        changes.push({ operation, original: text ?? '', language: this.getFileLanguage(operation.path) ?? 'txt' });
+        switch (operation.type) {
+            case 'create':
+            case 'modify':
+                texts.set(operation.path, operation.content);
+                break;
+            case 'delete':
+                texts.delete(operation.path);
+                break;
+            case 'rename':
+                if (text !== undefined) texts.set(operation.newPath, text);
+                texts.delete(operation.path);
+                break;
+        }
+    }
+    return changes;
+  }
+
+  /** Applies the changes accepted in review in one step, which `undoAiChange` takes back. */
+  async applyAiReview(operations: AiFileOperation[]) {
+    const review = this.aiReview();
+    if (!review) return;
+    this.aiReview.set(null);
+    this.isAiApplyingEdits.set(true);
+    const before = {
+        files: this.files(),
+        folders: this.folders(),
+        openFiles: this.openFiles().map(f => f.name),
+        activeFile: this.activeFile()?.name ?? null,
+        entryPage: this.entryPage(),
+    };
+    const edited: string[] = [];
+    const rejected: AiRejectedOperation[] = [];
+    const renames: AiUndo['renames'] = [];
+    try {
+        // Operations are checked one at a time against the project as the earlier ones left it.
+        for (const operation of operations) {
+            const reason = this.checkAiOperation(operation);
+            if (reason) {
+                rejected.push({ operation, reason });
+                continue;
             }
+            await this.applyAiOperation(operation);
+            edited.push(describeFileOperation(operation));
+            if (operation.type === 'rename') renames.push({ from: operation.path, to: operation.newPath });
         }
+    } finally {
+        this.isAiApplyingEdits.set(false);
+    }
+
+    if (edited.length > 0) {
+        this.aiUndo.set({ threadId: review.threadId, messageId: review.messageId, before, after: this.files(), renames });
+    }
+    const message = this.aiThreads().find(t => t.id === review.threadId)?.messages.find(m => m.id === review.messageId);
+    const notes = rejected.map(r => `- ${describeFileOperation(r.operation)}: ${r.reason}`);
+    this.updateAiMessage(review.threadId, review.messageId, {
+        text: notes.length > 0 && message ? `${message.text}\n\nНе применено:\n${notes.join('\n')}` : message?.text,
+        edits: edited,
+        reverted: operations.length === 0,
+    });
+  }
+
+  discardAiReview() {
+    const review = this.aiReview();
+    this.aiReview.set(null);
+    if (review) {
+        this.updateAiMessage(review.threadId, review.messageId, { reverted: true });
+    }
+  }
+
+  /** Puts the project back the way it was before the last applied AI change. */
+  async undoAiChange() {
+    const undo = this.aiUndo();
+    if (!undo) return;
+    const current = this.files();
+    const changedSince = current.length !== undo.after.length || current.some((f, i) => f.name !== undo.after[i].name || f.content !== undo.after[i].content);
+    if (changedSince && !confirm('После изменений AI файлы менялись. Отменить изменения AI? Более поздние правки тоже будут потеряны.')) return;
+
+    // What's being undone stays in the local history, like before restoring a snapshot.
+    for (const file of current) {
+        const previous = undo.before.files.find(f => f.name === file.name);
+        if (file.language !== 'binary' && file.content !== previous?.content) {
+            await this.historyService.addSnapshot(file.name, file.content, 'restore');
+        }
+    }
+    for (const { from, to } of [...undo.renames].reverse()) {
+        await this.updateHistory(this.historyService.movePath(to, from));
+    }
+    this.aiUndo.set(null);
+    this.files.set(undo.before.files);
+    this.folders.set(undo.before.folders);
+    this.openFiles.set(this.resolveOpenFiles(undo.before));
+    this.activeFile.set(undo.before.files.find(f => f.name === undo.before.activeFile) ?? this.openFiles()[0] ?? null);
+    this.entryPage.set(undo.before.entryPage);
+    this.updateAiMessage(undo.threadId, undo.messageId, { reverted: true });
+  }
+
+  /** Why an operation proposed by the AI can't be applied to the project as it is, or null if it can. */
+  private checkAiOperation(operation: AiFileOperation): string | null {
+    const file = this.files().find(f => f.name === operation.path);
+    const insideFile = (path: string) => getParentFolders(path).some(folder => this.files().some(f => f.name === folder));
+    switch (operation.type) {
+      case 'create': {
+        if (this.pathExists(operation.path)) return 'файл или папка с таким именем уже существует';
+        if (insideFile(operation.path)) return 'нельзя создать файл внутри файла';
+        const language = this.getFileLanguage(operation.path);
+        return language && language !== 'binary' ? null : 'неподдерживаемое расширение';
       }
-      
-      this.aiExplanation.set(response.explanation);
-      if (diffs.length === 0) {
-        this.aiExplanation.update(exp => exp + "\n\n(Изменений в коде не предложено)");
+      case 'modify':
+        if (!file) return 'файл не найден';
+        return file.language === 'binary' ? 'бинарные файлы не редактируются' : null;
+      case 'delete':
+        return file ? null : 'файл не найден';
+      case 'rename': {
+        if (!file) return 'файл не найден';
+        if (this.pathExists(operation.newPath)) return `${operation.newPath} уже существует`;
+        if (insideFile(operation.newPath)) return 'нельзя переместить файл внутрь файла';
+        const language = this.getFileLanguage(operation.newPath);
+        return language && (language === 'binary') === (file.language === 'binary') ? null : 'неподдерживаемое расширение';
       }
+    }
+  }
 
-    } catch (err) {
-      this.aiError.set(err instanceof Error ? err.message : 'Произошла ошибка при обращении к AI.');
-      console.error(err);
-    } finally {
-      this.isAiLoading.set(false);
-      this.isAiApplyingEdits.set(false);
+  /** Applies a checked operation. */
+  private async applyAiOperation(operation: AiFileOperation) {
+    switch (operation.type) {
+      case 'create': {
+        const file: ProjectFile = { name: operation.path, content: operation.content, language: this.getFileLanguage(operation.path) as EditorType };
+        this.files.update(files => [...files, file]);
+        getParentFolders(file.name).forEach(folder => this.expandFolder(folder));
+        this.setActiveFile(file);
+        break;
+      }
+      case 'modify': {
+        const file = this.files().find(f => f.name === operation.path)!;
+        await this.historyService.addSnapshot(file.name, file.content, 'ai');
+        this.updateFileContent(file.name, operation.content);
+        // Open tabs would otherwise keep showing the text from before the change.
+        this.refreshOpenFiles();
+        break;
+      }
+      case 'delete': {
+        const file = this.files().find(f => f.name === operation.path)!;
+        // Unlike a delete the user confirms, this one can be undone, so the history is kept along
+        // with the deleted text.
+        if (file.language !== 'binary') await this.historyService.addSnapshot(file.name, file.content, 'ai');
+        if (this.openFiles().some(f => f.name === file.name)) {
+            this.closeFile(file, { stopPropagation: () => {} } as MouseEvent);
+        }
+        this.files.update(files => files.filter(f => f.name !== file.name));
+        break;
+      }
+      case 'rename':
+        await this.relocatePath(operation.path, operation.newPath);
+        getParentFolders(operation.newPath).forEach(folder => this.expandFolder(folder));
+        break;
     }
   }
 
+  setAiModel(model: string) {
+    this.aiSettings.update(({ provider, providers }) => ({ provider, providers: { ...providers, [provider]: { ...providers[provider], model } } }));
+  }
+
+  /** Stops the AI request in progress; whatever has arrived of the answer is kept in the thread. */
+  cancelAI() {
+    this.aiRequest?.abort();
+  }
+
+  startNewAiThread() {
+    this.activeAiThreadId.set(null);
+    this.aiError.set('');
+  }
+
+  openAiThread(id: string | null) {
+    this.activeAiThreadId.set(id);
+    this.aiError.set('');
+  }
+
+  deleteAiThread(id: string) {
+    this.aiThreads.update(threads => threads.filter(t => t.id !== id));
+    if (this.activeAiThreadId() === id) this.activeAiThreadId.set(null);
+  }
+
+  /**
+   * Continues the open thread from `message` in a new thread. Branching at a request leaves it
+   * out and puts it back in the prompt, to be edited and sent again.
+   */
+  branchAiThread(message: AiChatMessage) {
+    const thread = this.activeAiThread();
+    if (!thread) return;
+    const index = thread.messages.findIndex(m => m.id === message.id);
+    const branch = message.role === 'user'
+      ? (index > 0 ? branchThread(thread, thread.messages[index - 1].id) : createThread())
+      : branchThread(thread, message.id);
+    this.aiThreads.update(threads => [branch, ...threads].slice(0, this.AI_THREAD_LIMIT));
+    this.activeAiThreadId.set(branch.id);
+    if (message.role === 'user') this.aiPrompt.set(message.text);
+    this.aiError.set('');
+  }
+
+  private updateAiMessage(threadId: string, messageId: string, changes: Parameters<typeof updateMessage>[2]) {
+    this.aiThreads.update(threads => threads.map(t => (t.id === threadId ? updateMessage(t, messageId, changes) : t)));
+  }
+
+  // Adds messages to a thread, or to a new one if `threadId` is null. Returns the thread's id.
+  private appendAiMessages(threadId: string | null, ...messages: AiChatMessage[]): string | null {
+    const existing = threadId ? this.aiThreads().find(t => t.id === threadId) : undefined;
+    // An answer arriving for a thread deleted in the meantime is dropped.
+    if (threadId && !existing) return null;
+    const thread = existing ? appendMessages(existing, ...messages) : createThread(messages);
+    this.aiThreads.update(threads => [thread, ...threads.filter(t => t.id !== thread.id)].slice(0, this.AI_THREAD_LIMIT));
+    if (!existing) this.activeAiThreadId.set(thread.id);
+    return thread.id;
+  }
+
+  // Starts a request in the AI pane, cancelling any earlier one that's still running.
+  private startAiRequest(): AbortSignal {
+    this.aiRequest?.abort();
+    this.aiRequest = new AbortController();
+    this.isAiLoading.set(true);
+    this.aiExplanation.set('');
+    this.aiError.set('');
+    return this.aiRequest.signal;
+  }
+
+  private finishAiRequest(signal: AbortSignal) {
+    if (this.aiRequest?.signal !== signal) return;
+    this.aiRequest = null;
+    this.isAiLoading.set(false);
+    this.aiExplanation.set('');
+  }
+
   // --- Command Palette ---
   executeCommand(command: Command) {
     command.action();
@@ -601,8 +1868,8 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     event.preventDefault();
     event.stopPropagation();
     
-    this.contextMenuSelection = selection || this.activeFile()?.content || '';
-    if (!this.contextMenuSelection) return;
+    this.contextMenuSelection = selection;
+    if (!selection && !this.activeFileContent()) return;
 
     this.contextMenuPosition.set({ x: event.clientX, y: event.clientY });
     this.isContextMenuVisible.set(true);
@@ -611,7 +1878,10 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   async runAiContextMenuAction(action: AiContextMenuAction) {
     this.isContextMenuVisible.set(false);
     
-    const code = this.contextMenuSelection;
+    // The file as it is when the request is sent; `activeFile` may hold text from before the latest edits.
+    const fileName = this.activeFile()?.name;
+    const original = this.activeFileContent();
+    const code = this.contextMenuSelection || original;
     if (!code) return;
 
     const language = this.activeFile()?.language || 'code';
@@ -625,19 +1895,30 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     }
 
     this.setActiveAiView('ai');
-    this.aiPrompt.set(`${taskDescription}:\n\`\`\`${language}\n${code}\n\`\`\``);
-    this.isAiLoading.set(true);
-    this.aiExplanation.set('');
-    this.aiError.set('');
+    const threadId = this.appendAiMessages(this.activeAiThread()?.id ?? null, createMessage('user', `${taskDescription}:\n\`\`\`${language}\n${code}\n\`\`\``));
+    const signal = this.startAiRequest();
+    let answer = '';
 
     try {
-        const response = await this.geminiService.getGenericCodeAnalysis(code, language, action);
-        this.aiExplanation.set(response);
+        for await (const text of this.aiService.streamCodeAnalysis(code, language, action, signal)) {
+            if (signal.aborted) break;
+            answer = text;
+            this.aiExplanation.set(answer);
+        }
+        // The answer is about the code that was sent, which edits made meanwhile may have changed.
+        if (!signal.aborted && fileName && this.files().find(f => f.name === fileName)?.content !== original) {
+            answer += `\n\n_Файл ${fileName} изменился, пока готовился ответ: ответ относится к версии кода на момент запроса._`;
+        }
+        this.appendAiMessages(threadId, createMessage('model', answer, signal.aborted ? { cancelled: true } : {}));
     } catch (err) {
-        this.aiError.set(err instanceof Error ? err.message : 'Произошла ошибка при обращении к AI.');
-        console.error(err);
+        if (signal.aborted) {
+            this.appendAiMessages(threadId, createMessage('model', answer, { cancelled: true }));
+        } else {
+            this.aiError.set(err instanceof Error ? err.message : 'Произошла ошибка при обращении к AI.');
+            console.error(err);
+        }
     } finally {
-        this.isAiLoading.set(false);
+        this.finishAiRequest(signal);
     }
   }
 }
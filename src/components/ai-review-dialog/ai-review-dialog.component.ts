@@ -0,0 +1,126 @@
+import { Component, ChangeDetectionStrategy, input, output, linkedSignal, computed, viewChild } from '@angular/core';
+import { MonacoDiffEditorComponent } from '../monaco-diff-editor/monaco-diff-editor.component';
+import { AiFileOperation } from '../../utils/ai-operations.utils';
+import { DiffHunk, describeHunk, mergeHunks } from '../../utils/diff-hunks.utils';
+
+/** A file operation proposed by the AI, with what it's compared against. */
+export interface AiProposedChange {
+  operation: AiFileOperation;
+  /** The file's text before the operation; empty for a new file or a binary one. */
+  original: string;
+  language: string;
+}
+
+interface ChangeDecision {
+  accepted: boolean;
+  /** The hunks of a modification, once the diff editor has computed them. */
+  hunks: DiffHunk[] | null;
+  rejectedHunks: ReadonlySet<number>;
+}
+
+@Component({
+  selector: 'app-ai-review-dialog',
+  standalone: true,
+  imports: [MonacoDiffEditorComponent],
+  templateUrl: './ai-review-dialog.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AiReviewDialogComponent {
+  changes = input.required<AiProposedChange[]>();
+  theme = input<'light' | 'dark'>('dark');
+  /** Emits the accepted operations, modifications narrowed down to their accepted hunks. */
+  apply = output<AiFileOperation[]>();
+  discard = output<void>();
+
+  diffEditor = viewChild(MonacoDiffEditorComponent);
+
+  readonly operationLabels: Record<AiFileOperation['type'], string> = {
+    create: 'Новый файл',
+    modify: 'Изменение',
+    delete: 'Удаление',
+    rename: 'Переименование',
+  };
+  readonly describeHunk = describeHunk;
+
+  selectedIndex = linkedSignal(() => {
+    this.changes();
+    return 0;
+  });
+  decisions = linkedSignal<ChangeDecision[]>(() => this.changes().map(() => ({ accepted: true, hunks: null, rejectedHunks: new Set() })));
+
+  selected = computed(() => this.changes()[this.selectedIndex()]);
+  selectedDecision = computed(() => this.decisions()[this.selectedIndex()]);
+  acceptedCount = computed(() => this.decisions().filter(d => d.accepted).length);
+
+  /** The texts the diff editor compares, or null for operations that have no text to compare. */
+  selectedDiff = computed(() => {
+    const change = this.selected();
+    if (!change || change.language === 'binary') return null;
+    const operation = change.operation;
+    switch (operation.type) {
+      case 'create': return { original: '', modified: operation.content };
+      case 'modify': return { original: change.original, modified: operation.content };
+      case 'delete': return { original: change.original, modified: '' };
+      case 'rename': return null;
+    }
+  });
+
+  rejectedHunks = computed(() => {
+    const decision = this.selectedDecision();
+    return decision?.hunks?.filter((_, index) => decision.rejectedHunks.has(index)) ?? [];
+  });
+
+  setAccepted(index: number, accepted: boolean) {
+    this.updateDecision(index, decision => ({ ...decision, accepted, rejectedHunks: new Set() }));
+  }
+
+  setAllAccepted(accepted: boolean) {
+    this.decisions.update(decisions => decisions.map(decision => ({ ...decision, accepted, rejectedHunks: new Set() })));
+  }
+
+  onHunksChange(hunks: DiffHunk[]) {
+    // The hunks of the same texts only change if the diff editor splits them differently.
+    this.updateDecision(this.selectedIndex(), decision => ({
+      ...decision,
+      hunks,
+      rejectedHunks: decision.hunks?.length === hunks.length ? decision.rejectedHunks : new Set(),
+    }));
+  }
+
+  /** Accepting a hunk of a turned-down file accepts the file; turning down its last hunk turns the file down. */
+  setHunkAccepted(hunkIndex: number, accepted: boolean) {
+    this.updateDecision(this.selectedIndex(), decision => {
+      const rejectedHunks = new Set(decision.accepted ? decision.rejectedHunks : decision.hunks?.keys());
+      if (accepted) rejectedHunks.delete(hunkIndex);
+      else rejectedHunks.add(hunkIndex);
+      if (rejectedHunks.size === decision.hunks?.length) return { ...decision, accepted: false, rejectedHunks: new Set() };
+      return { ...decision, accepted: true, rejectedHunks };
+    });
+  }
+
+  isHunkAccepted(hunkIndex: number): boolean {
+    const decision = this.selectedDecision();
+    return decision.accepted && !decision.rejectedHunks.has(hunkIndex);
+  }
+
+  revealHunk(hunk: DiffHunk) {
+    this.diffEditor()?.revealHunk(hunk);
+  }
+
+  submit() {
+    const decisions = this.decisions();
+    const operations = this.changes().flatMap((change, index): AiFileOperation[] => {
+      const decision = decisions[index];
+      const operation = change.operation;
+      if (!decision.accepted) return [];
+      if (operation.type !== 'modify' || !decision.hunks || decision.rejectedHunks.size === 0) return [operation];
+      const content = mergeHunks(change.original, operation.content, decision.hunks, hunk => !decision.rejectedHunks.has(hunk));
+      return content === change.original ? [] : [{ ...operation, content }];
+    });
+    this.apply.emit(operations);
+  }
+
+  private updateDecision(index: number, update: (decision: ChangeDecision) => ChangeDecision) {
+    this.decisions.update(decisions => decisions.map((decision, i) => (i === index ? update(decision) : decision)));
+  }
+}
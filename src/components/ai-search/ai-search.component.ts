@@ -1,5 +1,6 @@
-import { Component, ChangeDetectionStrategy, signal, inject } from '@angular/core';
-import { GeminiService, GroundedResponse } from '../../services/gemini.service';
+import { Component, ChangeDetectionStrategy, signal, inject, computed } from '@angular/core';
+import { AiService } from '../../services/ai.service';
+import { GroundedResponse } from '../../services/ai-provider';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 
@@ -11,27 +12,46 @@ import { CommonModule } from '@angular/common';
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AiSearchComponent {
-    private geminiService = inject(GeminiService);
+    private aiService = inject(AiService);
+
+    /** Whether the chosen provider can search the web; set up in the settings. */
+    isSupported = computed(() => this.aiService.supports('search'));
 
     prompt = signal('');
     isLoading = signal(false);
     result = signal<GroundedResponse | null>(null);
     error = signal('');
+    private request: AbortController | null = null;
 
     async search() {
         if (!this.prompt().trim()) return;
 
+        this.request?.abort();
+        const request = new AbortController();
+        this.request = request;
         this.isLoading.set(true);
         this.result.set(null);
         this.error.set('');
 
         try {
-            const response = await this.geminiService.getGroundedResponse(this.prompt());
-            this.result.set(response);
+            for await (const response of this.aiService.streamGroundedResponse(this.prompt(), request.signal)) {
+                if (request.signal.aborted) break;
+                this.result.set(response);
+            }
         } catch (err) {
-            this.error.set(err instanceof Error ? err.message : 'Произошла неизвестная ошибка.');
+            if (!request.signal.aborted) {
+                this.error.set(err instanceof Error ? err.message : 'Произошла неизвестная ошибка.');
+            }
         } finally {
-            this.isLoading.set(false);
+            if (this.request === request) {
+                this.request = null;
+                this.isLoading.set(false);
+            }
         }
     }
+
+    /** Stops the search in progress, keeping the part of the answer that has arrived. */
+    cancel() {
+        this.request?.abort();
+    }
 }
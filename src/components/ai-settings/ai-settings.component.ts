@@ -0,0 +1,65 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { AiService } from '../../services/ai.service';
+import { AI_PROVIDERS, AiCapability, AiProviderKind, AiProviderSettings, AiSettings, getProviderInfo } from '../../utils/ai-settings.utils';
+
+@Component({
+  selector: 'app-ai-settings',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './ai-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AiSettingsComponent {
+  private aiService = inject(AiService);
+
+  settings = input.required<AiSettings>();
+  settingsChange = output<AiSettings>();
+
+  readonly providers = AI_PROVIDERS;
+  readonly capabilityLabels: Record<AiCapability, string> = {
+    code: 'изменение кода',
+    analysis: 'анализ кода',
+    image: 'изображения',
+    search: 'поиск в интернете',
+  };
+
+  info = computed(() => getProviderInfo(this.settings().provider));
+  current = computed(() => this.settings().providers[this.settings().provider]);
+  isLoadingModels = signal(false);
+  modelsError = signal('');
+
+  setProvider(provider: AiProviderKind) {
+    this.modelsError.set('');
+    this.settingsChange.emit({ ...this.settings(), provider });
+  }
+
+  update(changes: Partial<AiProviderSettings>) {
+    const { provider, providers } = this.settings();
+    this.settingsChange.emit({ provider, providers: { ...providers, [provider]: { ...providers[provider], ...changes } } });
+  }
+
+  resetToDefaults() {
+    this.update({ ...this.info().defaults, apiKey: this.current().apiKey });
+  }
+
+  async loadModels() {
+    const { provider } = this.settings();
+    this.isLoadingModels.set(true);
+    this.modelsError.set('');
+    try {
+      const models = await this.aiService.listModels(provider, this.current());
+      // The provider may have been switched while the list was loading.
+      if (this.settings().provider !== provider) return;
+      if (models.length === 0) {
+        this.modelsError.set('Сервер не вернул ни одной модели.');
+        return;
+      }
+      this.update({ models, model: models.includes(this.current().model) ? this.current().model : models[0] });
+    } catch (err) {
+      this.modelsError.set(err instanceof Error ? err.message : 'Не удалось загрузить список моделей.');
+    } finally {
+      this.isLoadingModels.set(false);
+    }
+  }
+}
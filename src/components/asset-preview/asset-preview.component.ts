@@ -0,0 +1,51 @@
+import { Component, ChangeDetectionStrategy, signal, computed, inject, input, effect } from '@angular/core';
+import { ProjectFile } from '../../services/project.service';
+import { AssetService } from '../../services/asset.service';
+import { formatFileSize, getAssetKind } from '../../utils/assets.utils';
+import { basename } from '../../utils/path.utils';
+
+@Component({
+  selector: 'app-asset-preview',
+  standalone: true,
+  templateUrl: './asset-preview.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AssetPreviewComponent {
+    private assetService = inject(AssetService);
+
+    file = input.required<ProjectFile>();
+
+    kind = computed(() => getAssetKind(this.file().name));
+    url = computed(() => this.assetService.getUrl(this.file().blob!));
+    fileName = computed(() => basename(this.file().name));
+    size = computed(() => formatFileSize(this.file().blob?.size ?? 0));
+    mimeType = computed(() => this.file().blob?.type || 'application/octet-stream');
+
+    /** Font family registered for the previewed font, or null until it has loaded. */
+    fontFamily = signal<string | null>(null);
+    fontError = signal(false);
+    private fontCounter = 0;
+
+    constructor() {
+        effect(onCleanup => {
+            this.fontFamily.set(null);
+            this.fontError.set(false);
+            if (this.kind() !== 'font') return;
+
+            const font = new FontFace(`asset-preview-${++this.fontCounter}`, `url(${this.url()})`);
+            let cancelled = false;
+            onCleanup(() => {
+                cancelled = true;
+                document.fonts.delete(font);
+            });
+            font.load().then(
+                loaded => {
+                    if (cancelled) return;
+                    document.fonts.add(loaded);
+                    this.fontFamily.set(loaded.family);
+                },
+                () => !cancelled && this.fontError.set(true)
+            );
+        });
+    }
+}
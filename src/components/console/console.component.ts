@@ -1,37 +1,329 @@
-import { Component, ChangeDetectionStrategy, input, output, ViewChild, ElementRef, effect } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, signal, computed, ViewChild, ElementRef, effect } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ObjectInspectorComponent } from '../object-inspector/object-inspector.component';
+import { NetworkPanelComponent, NetworkRequest } from '../network-panel/network-panel.component';
+import { ConsoleValue, RemoteProperty, RemoteValue, formatRemoteValue } from '../../utils/remote-value.utils';
+import { downloadBlob } from '../../utils/zip.utils';
+import { formatLocation, SourceLocation } from '../../utils/stack-trace.utils';
+
+export type ConsoleLevel = 'error' | 'warn' | 'info' | 'log' | 'debug';
 
 export interface ConsoleLog {
-  type: 'log' | 'warn' | 'error' | 'info' | 'debug';
-  data: any[];
+  /**
+   * `input` echoes an expression typed into the console, `result` is what it evaluated to.
+   * `group`/`groupCollapsed` open a group whose label is `data` and `groupEnd` closes it;
+   * `navigation` marks a page reload when the log is preserved.
+   */
+  type: ConsoleLevel | 'input' | 'result' | 'group' | 'groupCollapsed' | 'groupEnd' | 'table' | 'navigation';
+  data: ConsoleValue[];
+  /** Cells of a `console.table` call; `data` then holds the whole object for the text view. */
+  table?: ConsoleTable;
   timestamp: string;
+  /** Project file location the message refers to, e.g. for compile and runtime errors. */
+  source?: SourceLocation;
+  /** Label of the preview window the message comes from, if it isn't the docked preview. */
+  origin?: string;
+}
+
+export interface ConsoleTable {
+  /** Column names; '' is the column for rows that are primitive values. */
+  columns: string[];
+  rows: { index: string; cells: Record<string, RemoteValue> }[];
+}
+
+/** A message as shown: nested in its groups, with consecutive duplicates counted. */
+interface ConsoleEntry {
+  log: ConsoleLog;
+  depth: number;
+  text: string;
+  count: number;
 }
 
+const LEVEL_FILTERS: { level: ConsoleLevel; label: string }[] = [
+  { level: 'error', label: 'Ошибки' },
+  { level: 'warn', label: 'Предупреждения' },
+  { level: 'info', label: 'Инфо' },
+  { level: 'log', label: 'Логи' },
+  { level: 'debug', label: 'Отладка' },
+];
+
 @Component({
   selector: 'app-console',
   standalone: true,
-  imports: [],
+  imports: [FormsModule, ObjectInspectorComponent, NetworkPanelComponent],
   templateUrl: './console.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AppConsoleComponent {
   logs = input.required<ConsoleLog[]>();
+  /** Looks up property names for autocompletion of an expression like `document.bo`. */
+  completionProvider = input<(expression: string) => Promise<string[]>>();
+  /** Fetches the properties of a logged object, for expanding it in the inspector. */
+  propertyProvider = input<(id: number) => Promise<RemoteProperty[]>>();
+  /** Keep messages when the preview reloads or navigates. */
+  preserveLog = input(false);
+  preserveLogChange = output<boolean>();
   clear = output<void>();
+  /** A file position was clicked, in a message's source or a stack trace. */
+  openSource = output<SourceLocation>();
+
+  // Network tab
+  requests = input<NetworkRequest[]>([]);
+  mocksEnabled = input(false);
+  hasMocksFile = input(false);
+  mocksEnabledChange = output<boolean>();
+  createMocksFile = output<void>();
+  clearRequests = output<void>();
+
+  activeTab = signal<'console' | 'network'>('console');
+  pendingRequests = computed(() => this.requests().filter(r => r.status === undefined && !r.error).length);
+  evaluate = output<string>();
 
   @ViewChild('logContainer') private logContainer?: ElementRef<HTMLDivElement>;
+  @ViewChild('replInput') private replInput?: ElementRef<HTMLInputElement>;
+
+  private readonly HISTORY_LIMIT = 100;
+
+  readonly levelFilters = LEVEL_FILTERS;
+  enabledLevels = signal<ReadonlySet<ConsoleLevel>>(new Set(LEVEL_FILTERS.map(f => f.level)));
+  search = signal('');
+  collapseDuplicates = signal(true);
+  // Groups whose expanded state the user flipped from how the page opened them.
+  private toggledGroups = signal<ReadonlySet<ConsoleLog>>(new Set());
+
+  entries = computed(() => this.buildEntries(this.logs(), this.enabledLevels(), this.search().trim().toLowerCase(), this.collapseDuplicates(), this.toggledGroups()));
+  hiddenCount = computed(() => this.logs().filter(log => !this.isStructural(log)).length - this.entries().filter(entry => !this.isStructural(entry.log)).reduce((sum, entry) => sum + entry.count, 0));
+
+  command = signal('');
+  completions = signal<string[]>([]);
+  selectedCompletion = signal(0);
+  private commandHistory: string[] = [];
+  // Position while browsing the history with the arrow keys; equals the history length when not browsing.
+  private historyIndex = 0;
+  private draft = '';
+  private completionRequest = 0;
 
   constructor() {
     effect(() => {
         this.logs();
         setTimeout(() => this.scrollToBottom(), 0);
     });
+    effect(() => {
+        if (this.logs().length === 0) this.toggledGroups.set(new Set());
+    });
+  }
+
+  openLocation = (location: SourceLocation) => this.openSource.emit(location);
+
+  toggleLevel(level: ConsoleLevel) {
+    this.enabledLevels.update(levels => {
+      const updated = new Set(levels);
+      if (!updated.delete(level)) updated.add(level);
+      return updated;
+    });
+  }
+
+  toggleGroup(log: ConsoleLog) {
+    this.toggledGroups.update(groups => {
+      const updated = new Set(groups);
+      if (!updated.delete(log)) updated.add(log);
+      return updated;
+    });
+  }
+
+  isGroupCollapsed(log: ConsoleLog): boolean {
+    return (log.type === 'groupCollapsed') !== this.toggledGroups().has(log);
+  }
+
+  /** Downloads the messages that pass the current filters as a text file. */
+  exportLogs() {
+    const lines = this.entries().map(({ log, depth, text, count }) => {
+      const time = new Date(log.timestamp).toTimeString().slice(0, 8);
+      const level = (log.type === 'groupCollapsed' ? 'group' : log.type).toUpperCase().padEnd(10);
+      const body = log.table ? `${text}\n${this.formatTable(log.table)}` : text;
+      const source = log.source ? ` (${formatLocation(log.source)})` : '';
+      const repeat = count > 1 ? ` (×${count})` : '';
+      const indent = '  '.repeat(depth);
+      return `[${time}] ${level} ${indent}${body.split('\n').join(`\n${indent}`)}${source}${repeat}`;
+    });
+    const date = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    downloadBlob(lines.join('\n') + '\n', `console-${date}.log`, 'text/plain');
+  }
+
+  private buildEntries(logs: ConsoleLog[], levels: ReadonlySet<ConsoleLevel>, search: string, collapseDuplicates: boolean, toggledGroups: ReadonlySet<ConsoleLog>): ConsoleEntry[] {
+    const entries: ConsoleEntry[] = [];
+    // Open groups, each marked with whether it hides its messages.
+    const groups: boolean[] = [];
+    for (const log of logs) {
+      if (log.type === 'navigation') groups.length = 0;
+      if (log.type === 'groupEnd') {
+        groups.pop();
+        continue;
+      }
+      const hidden = groups.includes(true);
+      const depth = groups.length;
+      if (log.type === 'group' || log.type === 'groupCollapsed') {
+        groups.push(hidden || (log.type === 'groupCollapsed') !== toggledGroups.has(log));
+      }
+      if (hidden) continue;
+
+      const text = this.formatLog(log.data);
+      const level = this.getLevel(log);
+      if (level && !levels.has(level)) continue;
+      if (search && !this.isStructural(log) && !text.toLowerCase().includes(search)) continue;
+
+      const last = entries[entries.length - 1];
+      if (collapseDuplicates && last && this.isRepeat(last, log, depth, text)) {
+        last.count++;
+        continue;
+      }
+      entries.push({ log, depth, text, count: 1 });
+    }
+    return entries;
+  }
+
+  private isRepeat(entry: ConsoleEntry, log: ConsoleLog, depth: number, text: string): boolean {
+    const repeatable = ['log', 'warn', 'error', 'info', 'debug'];
+    return repeatable.includes(log.type) && entry.log.type === log.type && entry.depth === depth && entry.text === text
+      && entry.log.source?.path === log.source?.path && entry.log.source?.line === log.source?.line && entry.log.source?.column === log.source?.column
+      && entry.log.origin === log.origin;
+  }
+
+  /** The filter level of a message; null for messages that are always shown. */
+  private getLevel(log: ConsoleLog): ConsoleLevel | null {
+    switch (log.type) {
+      case 'input':
+      case 'result':
+      case 'navigation':
+      case 'groupEnd': return null;
+      case 'group':
+      case 'groupCollapsed':
+      case 'table': return 'log';
+      default: return log.type;
+    }
+  }
+
+  /** Group headers and reload markers only give the other messages structure. */
+  private isStructural(log: ConsoleLog): boolean {
+    return log.type === 'group' || log.type === 'groupCollapsed' || log.type === 'navigation' || log.type === 'groupEnd';
+  }
+
+  private formatTable(table: ConsoleTable): string {
+    const header = ['(индекс)', ...table.columns.map(column => column || 'Значение')];
+    const rows = table.rows.map(row => [row.index, ...table.columns.map(column => row.cells[column] ? formatRemoteValue(row.cells[column], true) : '')]);
+    return [header, ...rows].map(cells => cells.join('\t')).join('\n');
+  }
+
+  onReplKeydown(event: KeyboardEvent) {
+    const completions = this.completions();
+    if (completions.length > 0) {
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          this.selectedCompletion.update(i => (i + 1) % completions.length);
+          return;
+        case 'ArrowUp':
+          event.preventDefault();
+          this.selectedCompletion.update(i => (i - 1 + completions.length) % completions.length);
+          return;
+        case 'Tab':
+        case 'Enter':
+          event.preventDefault();
+          this.acceptCompletion(completions[this.selectedCompletion()]);
+          return;
+        case 'Escape':
+          event.stopPropagation();
+          this.completions.set([]);
+          return;
+      }
+    }
+
+    switch (event.key) {
+      case 'Enter':
+        event.preventDefault();
+        this.submit();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.browseHistory(-1);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.browseHistory(1);
+        break;
+      case 'Tab':
+        event.preventDefault();
+        this.requestCompletions();
+        break;
+    }
+  }
+
+  onCommandChange(value: string) {
+    this.command.set(value);
+    this.requestCompletions();
+  }
+
+  acceptCompletion(name: string) {
+    const input = this.replInput?.nativeElement;
+    const command = this.command();
+    const caret = input?.selectionStart ?? command.length;
+    const prefix = this.getCompletionExpression(command.slice(0, caret))?.split('.').pop() ?? '';
+    const updated = command.slice(0, caret - prefix.length) + name + command.slice(caret);
+    this.command.set(updated);
+    this.completions.set([]);
+    const newCaret = caret - prefix.length + name.length;
+    setTimeout(() => input?.setSelectionRange(newCaret, newCaret), 0);
+  }
+
+  private submit() {
+    const code = this.command().trim();
+    if (!code) return;
+    if (this.commandHistory[this.commandHistory.length - 1] !== code) {
+      this.commandHistory = [...this.commandHistory, code].slice(-this.HISTORY_LIMIT);
+    }
+    this.historyIndex = this.commandHistory.length;
+    this.command.set('');
+    this.completions.set([]);
+    this.evaluate.emit(code);
+  }
+
+  private browseHistory(direction: -1 | 1) {
+    const index = this.historyIndex + direction;
+    if (index < 0 || index > this.commandHistory.length) return;
+    if (this.historyIndex === this.commandHistory.length) {
+      this.draft = this.command();
+    }
+    this.historyIndex = index;
+    this.command.set(index === this.commandHistory.length ? this.draft : this.commandHistory[index]);
+  }
+
+  private async requestCompletions() {
+    const provider = this.completionProvider();
+    const input = this.replInput?.nativeElement;
+    const expression = this.getCompletionExpression(this.command().slice(0, input?.selectionStart ?? undefined));
+    const request = ++this.completionRequest;
+    if (!provider || expression === null) {
+      this.completions.set([]);
+      return;
+    }
+    const items = await provider(expression);
+    if (request !== this.completionRequest) return; // A newer request is on its way.
+    const prefix = expression.split('.').pop() ?? '';
+    // Hide the list when the only suggestion is what's already typed.
+    this.completions.set(items.length === 1 && items[0] === prefix ? [] : items);
+    this.selectedCompletion.set(0);
+  }
+
+  /** Extracts the identifier chain being typed at the end of `text`, e.g. `window.loc`; null if there is none. */
+  private getCompletionExpression(text: string): string | null {
+    const match = text.match(/(?:[A-Za-z_$][\w$]*\.)*[A-Za-z_$]?[\w$]*$/);
+    const expression = match?.[0] ?? '';
+    // Numbers like "1.5" aren't property access.
+    return expression && !/^\d/.test(expression) ? expression : null;
   }
 
-  formatLog(data: any): string {
-    return data.map((arg: any) => {
-      if (typeof arg === 'string') return arg;
-      if (arg && arg.__error) return arg.message;
-      return JSON.stringify(arg, null, 2);
-    }).join(' ');
+  formatLog(data: ConsoleValue[]): string {
+    return data.map(arg => typeof arg === 'string' ? arg : formatRemoteValue(arg, true)).join(' ');
   }
 
   getIcon(type: ConsoleLog['type']): { icon: string; color: string } {
@@ -39,6 +331,9 @@ export class AppConsoleComponent {
       case 'warn': return { icon: '⚠️', color: 'text-amber-500 dark:text-amber-400' };
       case 'error': return { icon: '❌', color: 'text-red-500 dark:text-red-400' };
       case 'info': return { icon: 'ℹ️', color: 'text-sky-500 dark:text-sky-400' };
+      case 'input': return { icon: '›', color: 'text-sky-500 dark:text-sky-400' };
+      case 'result': return { icon: '‹', color: 'text-slate-400 dark:text-slate-500' };
+      case 'navigation': return { icon: '↻', color: 'text-slate-400 dark:text-slate-500' };
       default: return { icon: '', color: '' };
     }
   }
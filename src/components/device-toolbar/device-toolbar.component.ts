@@ -0,0 +1,63 @@
+import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import {
+  clampViewportSize, createDevice, CUSTOM_DEVICE, DEVICE_CATEGORIES, DEVICE_PIXEL_RATIOS, DEVICE_PRESETS, DEVICE_ZOOM_LEVELS,
+  getViewportSize, PreviewDevice,
+} from '../../utils/devices.utils';
+
+/** Controls for the device the preview emulates: size preset, custom size, rotation, zoom and pixel ratio. */
+@Component({
+  selector: 'app-device-toolbar',
+  standalone: true,
+  templateUrl: './device-toolbar.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DeviceToolbarComponent {
+  device = input.required<PreviewDevice>();
+  /** Scale the preview is drawn at, shown when zooming to fit. */
+  scale = input(1);
+  deviceChange = output<PreviewDevice>();
+
+  readonly categories = DEVICE_CATEGORIES;
+  readonly zoomLevels = DEVICE_ZOOM_LEVELS;
+  readonly pixelRatios = DEVICE_PIXEL_RATIOS;
+  readonly customDevice = CUSTOM_DEVICE;
+
+  presetsOf(category: string) {
+    return DEVICE_PRESETS.filter(preset => preset.category === category);
+  }
+
+  viewportSize() {
+    return getViewportSize(this.device());
+  }
+
+  selectPreset(id: string) {
+    const preset = DEVICE_PRESETS.find(p => p.id === id);
+    if (preset) {
+      this.deviceChange.emit({ ...createDevice(preset), landscape: this.device().landscape, zoom: this.device().zoom });
+    } else {
+      this.deviceChange.emit({ ...this.device(), preset: CUSTOM_DEVICE });
+    }
+  }
+
+  /** Sets the size as shown on screen, i.e. with rotation applied. */
+  setSize(dimension: 'width' | 'height', value: string) {
+    const device = this.device();
+    const size = clampViewportSize(Number(value));
+    // In landscape the shown width is the device's height and vice versa.
+    const key = device.landscape ? (dimension === 'width' ? 'height' : 'width') : dimension;
+    if (device[key] === size) return;
+    this.deviceChange.emit({ ...device, preset: CUSTOM_DEVICE, [key]: size });
+  }
+
+  rotate() {
+    this.deviceChange.emit({ ...this.device(), landscape: !this.device().landscape });
+  }
+
+  setZoom(value: string) {
+    this.deviceChange.emit({ ...this.device(), zoom: value === 'fit' ? 'fit' : Number(value) });
+  }
+
+  setPixelRatio(value: string) {
+    this.deviceChange.emit({ ...this.device(), devicePixelRatio: Number(value) });
+  }
+}
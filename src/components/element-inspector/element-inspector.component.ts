@@ -0,0 +1,58 @@
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+
+/** A CSS rule that applies to the element picked in the preview. */
+export interface InspectedRule {
+  selector: string;
+  /** The rule's declarations as `name: value;` text. */
+  declarations: string;
+  /** Condition of the @media rule it's in, if any. */
+  media: string | null;
+  /** Project stylesheet the rule comes from. */
+  file: string | null;
+  /** For a <style> element written in the page, the element's position in the page. */
+  position: { line: number; column: number } | null;
+}
+
+/** An element picked in the preview with the element picker. */
+export interface InspectedElement {
+  /** Tag, id and classes, e.g. `div#app.container`. */
+  description: string;
+  width: number;
+  height: number;
+  /** The page the element is in. */
+  page: string | null;
+  /** Position of the element's start tag in the page, or null if it isn't written in the page. */
+  location: { line: number; column: number } | null;
+  /** False if the element was created by a script and `location` is that of its closest ancestor written in the page. */
+  exact: boolean;
+  /** Selected computed style properties, as [name, value]. */
+  styles: [string, string][];
+  /** Matching rules in document order, so later ones win among equally specific selectors. */
+  rules: InspectedRule[];
+}
+
+@Component({
+  selector: 'app-element-inspector',
+  standalone: true,
+  templateUrl: './element-inspector.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ElementInspectorComponent {
+  element = input.required<InspectedElement>();
+  openElement = output<void>();
+  openRule = output<InspectedRule>();
+  close = output<void>();
+
+  /** Latest rules first, the way browser dev tools list them. */
+  rules = computed(() => [...this.element().rules].reverse());
+
+  declarationsOf(rule: InspectedRule): string[] {
+    return rule.declarations.split(';').map(declaration => declaration.trim()).filter(Boolean);
+  }
+
+  sourceOf(rule: InspectedRule): string {
+    if (rule.file) return rule.file;
+    if (rule.position) return `${this.element().page ?? ''}:${rule.position.line}`;
+    return 'стиль страницы';
+  }
+}
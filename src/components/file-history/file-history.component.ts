@@ -0,0 +1,68 @@
+import { Component, ChangeDetectionStrategy, signal, inject, input, output, effect, untracked } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FileSnapshot, HistoryService, SnapshotReason } from '../../services/history.service';
+import { MonacoDiffEditorComponent } from '../monaco-diff-editor/monaco-diff-editor.component';
+
+@Component({
+  selector: 'app-file-history',
+  standalone: true,
+  imports: [DatePipe, MonacoDiffEditorComponent],
+  templateUrl: './file-history.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class FileHistoryComponent {
+    private historyService = inject(HistoryService);
+
+    path = input<string | null>(null);
+    content = input<string>('');
+    language = input<string>('txt');
+    theme = input<'light' | 'dark'>('dark');
+
+    restore = output<FileSnapshot>();
+    savePoint = output<void>();
+
+    snapshots = signal<FileSnapshot[]>([]);
+    selectedSnapshot = signal<FileSnapshot | null>(null);
+    isLoading = signal(false);
+
+    readonly reasonLabels: Record<SnapshotReason, string> = {
+        ai: 'Перед изменением AI',
+        manual: 'Точка сохранения',
+        auto: 'Автосохранение',
+        restore: 'Перед восстановлением',
+    };
+
+    constructor() {
+        effect(() => {
+            const path = this.path();
+            this.historyService.version();
+            untracked(() => this.loadSnapshots(path));
+        });
+    }
+
+    restoreSelected(): void {
+        const snapshot = this.selectedSnapshot();
+        if (!snapshot) return;
+        this.restore.emit(snapshot);
+        this.selectedSnapshot.set(null);
+    }
+
+    private async loadSnapshots(path: string | null): Promise<void> {
+        if (!path) {
+            this.snapshots.set([]);
+            return;
+        }
+        this.isLoading.set(true);
+        try {
+            const snapshots = await this.historyService.getSnapshots(path);
+            // Ignore results for a file that is no longer selected.
+            if (this.path() === path) {
+                this.snapshots.set(snapshots);
+            }
+        } catch (e) {
+            console.error('Failed to load file history', e);
+        } finally {
+            this.isLoading.set(false);
+        }
+    }
+}
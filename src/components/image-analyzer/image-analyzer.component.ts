@@ -1,5 +1,5 @@
 import { Component, ChangeDetectionStrategy, signal, inject } from '@angular/core';
-import { GeminiService } from '../../services/gemini.service';
+import { AiService } from '../../services/ai.service';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 
@@ -11,7 +11,7 @@ import { CommonModule } from '@angular/common';
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class ImageAnalyzerComponent {
-    private geminiService = inject(GeminiService);
+    private aiService = inject(AiService);
 
     prompt = signal('');
     isLoading = signal(false);
@@ -60,7 +60,7 @@ export class ImageAnalyzerComponent {
         this.error.set('');
 
         try {
-            const response = await this.geminiService.analyzeImage(image, mimeType, userPrompt);
+            const response = await this.aiService.analyzeImage(image, mimeType, userPrompt);
             this.result.set(response);
         } catch (err) {
             this.error.set(err instanceof Error ? err.message : 'Произошла неизвестная ошибка.');
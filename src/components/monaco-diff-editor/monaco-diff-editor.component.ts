@@ -0,0 +1,145 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  viewChild,
+  ElementRef,
+  AfterViewInit,
+  OnDestroy,
+  input,
+  output,
+  effect,
+  ViewEncapsulation,
+} from '@angular/core';
+import { MonacoEditorComponent, toMonacoLanguage } from '../monaco-editor/monaco-editor.component';
+import { DiffHunk } from '../../utils/diff-hunks.utils';
+
+declare const monaco: any;
+
+@Component({
+  selector: 'app-monaco-diff-editor',
+  standalone: true,
+  template: `<div #diffContainer class="w-full h-full"></div>`,
+  // Monaco renders decorations outside of Angular's view, so their classes must be global.
+  styles: [`
+    .monaco-rejected-hunk { background: rgba(100, 116, 139, 0.25); text-decoration: line-through; opacity: 0.6; }
+  `],
+  encapsulation: ViewEncapsulation.None,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MonacoDiffEditorComponent implements AfterViewInit, OnDestroy {
+  diffContainer = viewChild.required<ElementRef<HTMLDivElement>>('diffContainer');
+
+  original = input.required<string>();
+  modified = input.required<string>();
+  language = input.required<string>();
+  theme = input<'light' | 'dark'>('dark');
+  /** Whether changes in leading and trailing whitespace are left out of the diff. */
+  ignoreWhitespace = input(true);
+  /** Hunks to mark as turned down. */
+  rejectedHunks = input<DiffHunk[]>([]);
+
+  /** Emits the hunks each time the diff of the current texts has been computed. */
+  hunksChange = output<DiffHunk[]>();
+
+  private diffEditor?: any;
+  private originalModel?: any;
+  private modifiedModel?: any;
+  private originalDecorations?: any;
+  private modifiedDecorations?: any;
+
+  constructor() {
+    effect(() => {
+      const original = this.original();
+      if (this.originalModel && this.originalModel.getValue() !== original) {
+        this.originalModel.setValue(original);
+      }
+    });
+
+    effect(() => {
+      const modified = this.modified();
+      if (this.modifiedModel && this.modifiedModel.getValue() !== modified) {
+        this.modifiedModel.setValue(modified);
+      }
+    });
+
+    effect(() => {
+      const language = toMonacoLanguage(this.language());
+      if (this.originalModel && this.modifiedModel) {
+        monaco.editor.setModelLanguage(this.originalModel, language);
+        monaco.editor.setModelLanguage(this.modifiedModel, language);
+      }
+    });
+
+    effect(() => {
+      const hunks = this.rejectedHunks();
+      if (this.diffEditor) {
+        this.showRejectedHunks(hunks);
+      }
+    });
+  }
+
+  /** Scrolls both sides to a hunk. */
+  revealHunk(hunk: DiffHunk): void {
+    const line = Math.max(hunk.modifiedStart, 1);
+    this.diffEditor?.getModifiedEditor().revealLineInCenter(line);
+  }
+
+  ngAfterViewInit(): void {
+    MonacoEditorComponent.loadMonaco().then(() => {
+      this.initEditor();
+    }).catch(err => {
+      console.error("Monaco diff editor failed to load and initialize:", err);
+      this.diffContainer().nativeElement.textContent = 'Error: Could not load the diff editor.';
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.diffEditor?.dispose();
+    this.originalModel?.dispose();
+    this.modifiedModel?.dispose();
+    this.diffEditor = undefined;
+  }
+
+  private initEditor(): void {
+    const language = toMonacoLanguage(this.language());
+    this.originalModel = monaco.editor.createModel(this.original(), language);
+    this.modifiedModel = monaco.editor.createModel(this.modified(), language);
+
+    this.diffEditor = monaco.editor.createDiffEditor(this.diffContainer().nativeElement, {
+      theme: this.theme() === 'dark' ? 'vs-dark' : 'vs',
+      readOnly: true,
+      originalEditable: false,
+      automaticLayout: true,
+      renderSideBySide: true,
+      ignoreTrimWhitespace: this.ignoreWhitespace(),
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+    });
+    this.diffEditor.setModel({ original: this.originalModel, modified: this.modifiedModel });
+    this.originalDecorations = this.diffEditor.getOriginalEditor().createDecorationsCollection();
+    this.modifiedDecorations = this.diffEditor.getModifiedEditor().createDecorationsCollection();
+    this.showRejectedHunks(this.rejectedHunks());
+
+    this.diffEditor.onDidUpdateDiff(() => {
+      // A diff computed for texts that have been replaced since is of no use to anyone.
+      if (this.originalModel.getValue() !== this.original() || this.modifiedModel.getValue() !== this.modified()) return;
+      const hunks: DiffHunk[] = (this.diffEditor.getLineChanges() ?? []).map((change: any) => ({
+        originalStart: change.originalStartLineNumber,
+        originalEnd: change.originalEndLineNumber,
+        modifiedStart: change.modifiedStartLineNumber,
+        modifiedEnd: change.modifiedEndLineNumber,
+      }));
+      this.hunksChange.emit(hunks);
+    });
+  }
+
+  // Strikes through the lines a turned-down hunk would have added, or for a deletion the lines it would have removed.
+  private showRejectedHunks(hunks: DiffHunk[]): void {
+    const decoration = (start: number, end: number) => ({
+      range: new monaco.Range(start, 1, end, 1),
+      options: { isWholeLine: true, className: 'monaco-rejected-hunk' },
+    });
+    this.modifiedDecorations?.set(hunks.filter(h => h.modifiedEnd !== 0).map(h => decoration(h.modifiedStart, h.modifiedEnd)));
+    this.originalDecorations?.set(hunks.filter(h => h.modifiedEnd === 0).map(h => decoration(h.originalStart, h.originalEnd)));
+  }
+}
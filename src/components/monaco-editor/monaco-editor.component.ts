@@ -9,6 +9,7 @@ import {
   output,
   effect,
   untracked,
+  ViewEncapsulation,
 } from '@angular/core';
 
 declare const monaco: any;
@@ -18,6 +19,13 @@ declare const require: any;
   selector: 'app-monaco-editor',
   standalone: true,
   template: `<div #editorContainer class="w-full h-full"></div>`,
+  // Monaco renders decorations outside of Angular's view, so their classes must be global.
+  styles: [`
+    .monaco-error-line { background: rgba(239, 68, 68, 0.15); }
+    .monaco-error-glyph { background: #ef4444; border-radius: 50%; margin-left: 4px; width: 8px !important; height: 8px !important; margin-top: 6px; }
+    .monaco-reveal-line { background: rgba(14, 165, 233, 0.15); }
+  `],
+  encapsulation: ViewEncapsulation.None,
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
@@ -26,11 +34,17 @@ export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
   language = input.required<string>();
   content = input.required<string>();
   theme = input<'light' | 'dark'>('dark');
+  /** A position to reveal and mark as the source of an error, e.g. from a stack trace in the console. */
+  errorLocation = input<{ line: number; column: number } | null>(null);
+  /** A position to reveal and highlight, e.g. of an element picked in the preview. */
+  revealLocation = input<{ line: number; column: number } | null>(null);
 
   contentChange = output<string>();
   contextMenuAction = output<{ event: MouseEvent, selection: string }>();
 
   private editor?: any;
+  private errorDecorations?: any;
+  private revealDecorations?: any;
   private resizeObserver?: ResizeObserver;
 
   private static monacoLoadingPromise: Promise<void> | null = null;
@@ -57,7 +71,22 @@ export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
     effect(() => {
         const newLang = this.language();
         if (this.editor && this.isViewReady) {
-            monaco.editor.setModelLanguage(this.editor.getModel(), this.mapLanguage(newLang));
+            monaco.editor.setModelLanguage(this.editor.getModel(), toMonacoLanguage(newLang));
+        }
+    });
+
+    // Runs after the content effect, so the location refers to the file now shown.
+    effect(() => {
+        const location = this.errorLocation();
+        if (this.editor) {
+            this.showErrorLocation(location);
+        }
+    });
+
+    effect(() => {
+        const location = this.revealLocation();
+        if (this.editor) {
+            this.showRevealLocation(location);
         }
     });
 
@@ -89,7 +118,7 @@ export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
     this.resizeObserver?.disconnect();
   }
   
-  private static loadMonaco(): Promise<void> {
+  static loadMonaco(): Promise<void> {
     if (this.monacoLoadingPromise) {
       return this.monacoLoadingPromise;
     }
@@ -213,7 +242,7 @@ export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
 
     this.editor = monaco.editor.create(this.editorContainer().nativeElement, {
       value: this.content(),
-      language: this.mapLanguage(this.language()),
+      language: toMonacoLanguage(this.language()),
       theme: this.theme() === 'dark' ? 'vs-dark' : 'vs',
       automaticLayout: false,
       minimap: { enabled: true },
@@ -227,6 +256,8 @@ export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
     });
 
     this.editor.getModel().onDidChangeContent(() => {
+      this.errorDecorations?.clear();
+      this.revealDecorations?.clear();
       if (this.isAnimating) return; // Ignore changes during animation
       const currentContent = this.editor.getValue();
       if (currentContent !== this.content()) {
@@ -249,18 +280,62 @@ export class MonacoEditorComponent implements AfterViewInit, OnDestroy {
       requestAnimationFrame(() => this.editor?.layout());
     });
     this.resizeObserver.observe(this.editorContainer().nativeElement);
+
+    this.showErrorLocation(untracked(() => this.errorLocation()));
+    this.showRevealLocation(untracked(() => this.revealLocation()));
   }
 
-  private mapLanguage(lang: string): string {
-    switch (lang) {
-      case 'js': return 'javascript';
-      case 'ts': return 'typescript';
-      case 'md': return 'markdown';
-      case 'scss': return 'scss';
-      case 'svg': return 'xml';
-      case 'yaml': return 'yaml';
-      case 'txt': return 'plaintext';
-      default: return lang;
-    }
+  private showErrorLocation(location: { line: number; column: number } | null): void {
+    this.errorDecorations?.clear();
+    if (!location) return;
+    const { line, column } = this.clampPosition(location);
+    this.errorDecorations = this.editor.createDecorationsCollection([{
+      range: new monaco.Range(line, 1, line, 1),
+      options: {
+        isWholeLine: true,
+        className: 'monaco-error-line',
+        glyphMarginClassName: 'monaco-error-glyph',
+        overviewRuler: { color: '#ef4444', position: monaco.editor.OverviewRulerLane.Full },
+      },
+    }]);
+    this.revealPosition(line, column);
+  }
+
+  private showRevealLocation(location: { line: number; column: number } | null): void {
+    this.revealDecorations?.clear();
+    if (!location) return;
+    const { line, column } = this.clampPosition(location);
+    this.revealDecorations = this.editor.createDecorationsCollection([{
+      range: new monaco.Range(line, 1, line, 1),
+      options: { isWholeLine: true, className: 'monaco-reveal-line' },
+    }]);
+    this.revealPosition(line, column);
+  }
+
+  private clampPosition(location: { line: number; column: number }): { line: number; column: number } {
+    const model = this.editor.getModel();
+    const line = Math.min(Math.max(location.line, 1), model.getLineCount());
+    return { line, column: Math.min(Math.max(location.column, 1), model.getLineMaxColumn(line)) };
+  }
+
+  private revealPosition(line: number, column: number): void {
+    this.editor.setPosition({ lineNumber: line, column });
+    this.editor.revealPositionInCenter({ lineNumber: line, column });
+    this.editor.focus();
+  }
+
+}
+
+/** Maps the editor's file types to Monaco language ids. */
+export function toMonacoLanguage(lang: string): string {
+  switch (lang) {
+    case 'js': return 'javascript';
+    case 'ts': return 'typescript';
+    case 'md': return 'markdown';
+    case 'scss': return 'scss';
+    case 'svg': return 'xml';
+    case 'yaml': return 'yaml';
+    case 'txt': return 'plaintext';
+    default: return lang;
   }
 }
\ No newline at end of file
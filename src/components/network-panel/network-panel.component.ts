@@ -0,0 +1,96 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+export interface NetworkRequest {
+  /** Unique across preview reloads, so preserved requests never collide. */
+  id: string;
+  kind: 'fetch' | 'xhr';
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody: string | null;
+  /** Answered from mocks.json instead of the network. */
+  mocked: boolean;
+  startTime: number;
+  // Set once the request has finished.
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string | null;
+  duration?: number;
+  error?: string;
+}
+
+type DetailsTab = 'headers' | 'request' | 'response';
+
+@Component({
+  selector: 'app-network-panel',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './network-panel.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class NetworkPanelComponent {
+  requests = input.required<NetworkRequest[]>();
+  mocksEnabled = input(false);
+  /** Whether the project has a mocks.json file. */
+  hasMocksFile = input(false);
+  mocksEnabledChange = output<boolean>();
+  createMocksFile = output<void>();
+  clear = output<void>();
+
+  search = signal('');
+  selectedId = signal<string | null>(null);
+  detailsTab = signal<DetailsTab>('headers');
+
+  filteredRequests = computed(() => {
+    const search = this.search().trim().toLowerCase();
+    return search ? this.requests().filter(r => r.url.toLowerCase().includes(search) || r.method.toLowerCase() === search) : this.requests();
+  });
+  selected = computed(() => this.requests().find(r => r.id === this.selectedId()) ?? null);
+
+  select(request: NetworkRequest) {
+    this.selectedId.set(this.selectedId() === request.id ? null : request.id);
+  }
+
+  getName(request: NetworkRequest): string {
+    try {
+      const url = new URL(request.url);
+      const name = url.pathname.split('/').filter(Boolean).pop() ?? url.host;
+      return `${name}${url.search}`;
+    } catch {
+      return request.url;
+    }
+  }
+
+  getStatusText(request: NetworkRequest): string {
+    if (request.error) return 'ошибка';
+    if (request.status === undefined) return 'в ожидании';
+    return String(request.status);
+  }
+
+  getStatusClass(request: NetworkRequest): string {
+    if (request.error || (request.status ?? 0) >= 400) return 'text-red-600 dark:text-red-400';
+    if (request.status === undefined) return 'text-slate-400 dark:text-slate-500';
+    return '';
+  }
+
+  formatDuration(request: NetworkRequest): string {
+    if (request.duration === undefined) return '—';
+    return request.duration < 1000 ? `${Math.round(request.duration)} мс` : `${(request.duration / 1000).toFixed(2)} с`;
+  }
+
+  /** Pretty-prints JSON bodies; anything else is shown as-is. */
+  formatBody(body: string | null | undefined): string {
+    if (!body) return '';
+    try {
+      return JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      return body;
+    }
+  }
+
+  headerEntries(headers: Record<string, string> | undefined): [string, string][] {
+    return Object.entries(headers ?? {});
+  }
+}
@@ -0,0 +1,81 @@
+import { Component, ChangeDetectionStrategy, signal, computed, input } from '@angular/core';
+import { NgTemplateOutlet } from '@angular/common';
+import { RemoteProperty, RemoteValue, formatRemoteValue, isExpandable } from '../../utils/remote-value.utils';
+import { SourceLocation, splitSourceLinks, StackTraceSegment } from '../../utils/stack-trace.utils';
+
+/** A value logged in the preview, shown as an expandable tree whose children are fetched on demand. */
+@Component({
+  selector: 'app-object-inspector',
+  standalone: true,
+  imports: [NgTemplateOutlet, ObjectInspectorComponent],
+  templateUrl: './object-inspector.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ObjectInspectorComponent {
+    value = input.required<RemoteValue>();
+    /** Property name or Map key shown before the value; top-level values have none. */
+    name = input<string>();
+    /** Top-level strings are printed as-is, nested ones quoted. */
+    top = input(false);
+    fetchProperties = input<(id: number) => Promise<RemoteProperty[]>>();
+    /** Opens a project file position mentioned in a stack trace or message. */
+    openSource = input<(location: SourceLocation) => void>();
+
+    expanded = signal(false);
+    loading = signal(false);
+    properties = signal<RemoteProperty[] | null>(null);
+
+    expandable = computed(() => isExpandable(this.value()) && !!this.fetchProperties());
+    text = computed(() => formatRemoteValue(this.value(), this.top()));
+    // Expanded objects list their properties below, so the header only needs the short description.
+    headerText = computed(() => {
+        const value = this.value();
+        return this.expanded() && value.type === 'object' && value.subtype !== 'error' ? value.description : this.text();
+    });
+
+    /** The header text, with file positions split out as links where stack traces may appear. */
+    segments = computed<StackTraceSegment[]>(() => {
+        const value = this.value();
+        const text = this.headerText();
+        const linkable = (value.type === 'string' && this.top()) || (value.type === 'object' && value.subtype === 'error');
+        return linkable && this.openSource() ? splitSourceLinks(text) : [text];
+    });
+
+    valueClass = computed(() => {
+        switch (this.value().type) {
+            case 'string': return this.top() ? '' : 'text-emerald-700 dark:text-emerald-400';
+            case 'number':
+            case 'bigint':
+            case 'boolean': return 'text-blue-700 dark:text-blue-400';
+            case 'undefined':
+            case 'null': return 'text-slate-400 dark:text-slate-500';
+            case 'symbol': return 'text-purple-700 dark:text-purple-400';
+            case 'function': return 'italic';
+            default: return '';
+        }
+    });
+
+    async toggle() {
+        const value = this.value();
+        const fetch = this.fetchProperties();
+        if (!fetch || !isExpandable(value)) return;
+        this.expanded.update(expanded => !expanded);
+        if (!this.expanded() || this.properties() || this.loading()) return;
+
+        this.loading.set(true);
+        try {
+            this.properties.set(await fetch(value.id));
+        } finally {
+            this.loading.set(false);
+        }
+    }
+
+    open(event: MouseEvent, location: SourceLocation) {
+        event.stopPropagation();
+        this.openSource()?.(location);
+    }
+
+    formatKey(property: RemoteProperty): string {
+        return property.key ? `${formatRemoteValue(property.key)} =>` : `${property.name}:`;
+    }
+}
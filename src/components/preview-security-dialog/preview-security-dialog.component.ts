@@ -0,0 +1,43 @@
+import { Component, ChangeDetectionStrategy, input, output, linkedSignal, computed } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { DEFAULT_PREVIEW_SECURITY, isIsolated, PreviewSecurity, RECOMMENDED_PREVIEW_CSP, SANDBOX_PERMISSIONS } from '../../utils/preview-security.utils';
+
+@Component({
+  selector: 'app-preview-security-dialog',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './preview-security-dialog.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PreviewSecurityDialogComponent {
+  security = input.required<PreviewSecurity>();
+  save = output<PreviewSecurity>();
+  cancel = output<void>();
+
+  readonly permissions = SANDBOX_PERMISSIONS;
+  readonly recommendedCsp = RECOMMENDED_PREVIEW_CSP;
+
+  sandbox = linkedSignal<ReadonlySet<string>>(() => new Set(this.security().sandbox));
+  csp = linkedSignal(() => this.security().csp);
+  isolated = computed(() => isIsolated({ sandbox: [...this.sandbox()], csp: this.csp() }));
+
+  togglePermission(token: string, enabled: boolean) {
+    this.sandbox.update(current => {
+      const next = new Set(current);
+      if (enabled) next.add(token);
+      else next.delete(token);
+      return next;
+    });
+  }
+
+  resetToDefaults() {
+    this.sandbox.set(new Set(DEFAULT_PREVIEW_SECURITY.sandbox));
+    this.csp.set(DEFAULT_PREVIEW_SECURITY.csp);
+  }
+
+  submit() {
+    // Kept in the order of the list, so equal settings compare equal.
+    const sandbox = this.sandbox();
+    this.save.emit({ sandbox: this.permissions.map(p => p.token).filter(token => sandbox.has(token)), csp: this.csp().trim() });
+  }
+}
@@ -0,0 +1,63 @@
+import { Component, ChangeDetectionStrategy, signal, inject, output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ProjectMeta, ProjectService } from '../../services/project.service';
+
+@Component({
+  selector: 'app-project-manager',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './project-manager.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ProjectManagerComponent {
+    private projectService = inject(ProjectService);
+
+    projects = this.projectService.projects;
+    activeProjectId = this.projectService.activeProjectId;
+    openProject = output<string>();
+    createProject = output<string>();
+    deleteProject = output<string>();
+
+    newProjectName = signal('');
+    editingProjectId = signal<string | null>(null);
+    editingName = signal('');
+
+    submitNewProject(): void {
+        this.createProject.emit(this.newProjectName());
+        this.newProjectName.set('');
+    }
+
+    startRename(project: ProjectMeta, event: MouseEvent): void {
+        event.stopPropagation();
+        this.editingProjectId.set(project.id);
+        this.editingName.set(project.name);
+    }
+
+    confirmRename(): void {
+        const id = this.editingProjectId();
+        if (id) {
+            this.projectService.renameProject(id, this.editingName());
+        }
+        this.cancelRename();
+    }
+
+    cancelRename(): void {
+        this.editingProjectId.set(null);
+        this.editingName.set('');
+    }
+
+    duplicateProject(project: ProjectMeta, event: MouseEvent): void {
+        event.stopPropagation();
+        this.projectService.duplicateProject(project.id);
+    }
+
+    confirmDeleteProject(project: ProjectMeta, event: MouseEvent): void {
+        event.stopPropagation();
+        if (this.projects().length <= 1) {
+            alert('Нельзя удалить единственный проект.');
+            return;
+        }
+        if (!confirm(`Удалить проект «${project.name}» со всеми файлами? Это действие необратимо.`)) return;
+        this.deleteProject.emit(project.id);
+    }
+}
@@ -0,0 +1,23 @@
+import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import { ReferenceUpdate } from '../../utils/references.utils';
+
+export interface RenamePreview {
+  from: string;
+  to: string;
+  /** Files whose references to the renamed paths will be rewritten. */
+  updates: ReferenceUpdate[];
+}
+
+@Component({
+  selector: 'app-rename-preview-dialog',
+  standalone: true,
+  imports: [],
+  templateUrl: './rename-preview-dialog.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RenamePreviewDialogComponent {
+  preview = input.required<RenamePreview>();
+  /** Emits whether references should be rewritten along with the rename. */
+  confirm = output<boolean>();
+  cancel = output<void>();
+}
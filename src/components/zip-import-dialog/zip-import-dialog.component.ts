@@ -0,0 +1,51 @@
+import { Component, ChangeDetectionStrategy, input, output, linkedSignal, computed } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+export type ConflictResolution = 'overwrite' | 'skip' | 'rename';
+
+export interface ZipImportPlan {
+  archiveName: string;
+  /** Text files carry `content`; binary assets carry `blob` and an empty `content`. */
+  files: { path: string; content: string; blob?: Blob }[];
+  folders: string[];
+  /** Paths from the archive that already exist in the project. */
+  conflicts: string[];
+  skipped: { path: string; reason: string }[];
+}
+
+@Component({
+  selector: 'app-zip-import-dialog',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './zip-import-dialog.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ZipImportDialogComponent {
+  plan = input.required<ZipImportPlan>();
+  confirm = output<Record<string, ConflictResolution>>();
+  cancel = output<void>();
+
+  readonly resolutionLabels: Record<ConflictResolution, string> = {
+    overwrite: 'Заменить',
+    skip: 'Пропустить',
+    rename: 'Сохранить оба',
+  };
+  readonly resolutionOptions = Object.keys(this.resolutionLabels) as ConflictResolution[];
+
+  resolutions = linkedSignal<Record<string, ConflictResolution>>(() =>
+    Object.fromEntries(this.plan().conflicts.map(path => [path, 'rename' as ConflictResolution]))
+  );
+
+  importCount = computed(() => {
+    const resolutions = this.resolutions();
+    return this.plan().files.filter(f => resolutions[f.path] !== 'skip').length;
+  });
+
+  setResolution(path: string, resolution: ConflictResolution) {
+    this.resolutions.update(current => ({ ...current, [path]: resolution }));
+  }
+
+  setAllResolutions(resolution: ConflictResolution) {
+    this.resolutions.set(Object.fromEntries(this.plan().conflicts.map(path => [path, resolution])));
+  }
+}
@@ -0,0 +1,93 @@
+import { readPartialJsonObject } from '../utils/partial-json.utils';
+import { AiChatTurn } from '../utils/ai-chat.utils';
+import { AiFileOperation, AiProjectFile, readFileOperations } from '../utils/ai-operations.utils';
+import { AiCodeAction } from '../utils/ai-prompts.utils';
+import { AiCapability, AiProviderInfo, AiProviderSettings } from '../utils/ai-settings.utils';
+
+export interface AiCodeResponse {
+  explanation: string;
+  operations: AiFileOperation[];
+}
+
+/** A code modification as it streams in. */
+export interface AiCodeProgress {
+  /** As much of the explanation as has arrived. */
+  explanation: string;
+  /** The whole response, once it has arrived. */
+  response: AiCodeResponse | null;
+}
+
+export interface GroundingChunk {
+  web: {
+    uri: string;
+    title: string;
+  };
+}
+
+export interface GroundedResponse {
+  text: string;
+  chunks: GroundingChunk[];
+}
+
+const CAPABILITY_NAMES: Record<AiCapability, string> = {
+  code: 'изменение кода',
+  analysis: 'анализ кода',
+  image: 'анализ изображений',
+  search: 'поиск в интернете',
+};
+
+/**
+ * A model provider behind the AI features. Providers turn requests into calls to their API;
+ * what's asked is shared (see `ai-prompts.utils`), and so is reading the structured answers.
+ * A cancelled request rejects with the abort error, which callers tell apart by their signal.
+ */
+export abstract class AiProvider {
+  constructor(readonly info: AiProviderInfo, protected readonly settings: AiProviderSettings) {}
+
+  /**
+   * Streams a code modification: the explanation is yielded as it arrives, and the response
+   * once the whole JSON object has arrived. Operations are only ever taken from the complete object.
+   * `files` is the whole project; `history` holds the earlier turns of the conversation.
+   */
+  abstract streamCodeModification(files: AiProjectFile[], prompt: string, history: AiChatTurn[], signal?: AbortSignal): AsyncGenerator<AiCodeProgress>;
+
+  /** Streams a markdown answer about a piece of code, yielding the text so far after each chunk. */
+  abstract streamCodeAnalysis(code: string, language: string, action: AiCodeAction, signal?: AbortSignal): AsyncGenerator<string>;
+
+  abstract analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<string>;
+
+  /** Streams an answer grounded in web search, yielding it so far after each chunk. */
+  abstract streamGroundedResponse(prompt: string, signal?: AbortSignal): AsyncGenerator<GroundedResponse>;
+
+  /** Fetches the models the provider offers, for providers that can list them. */
+  async listModels(): Promise<string[]> {
+    throw new Error(`${this.info.label}: список моделей недоступен.`);
+  }
+
+  protected unsupported(capability: AiCapability): Error {
+    return new Error(`${this.info.label} не поддерживает ${CAPABILITY_NAMES[capability]}. Выберите другого провайдера в настройках.`);
+  }
+
+  /** Reads a code modification from the chunks of its JSON text as they arrive. */
+  protected async *readCodeModification(chunks: AsyncIterable<string>): AsyncGenerator<AiCodeProgress> {
+    let jsonString = '';
+    for await (const chunk of chunks) {
+      jsonString += chunk;
+      const partial = readPartialJsonObject(jsonString);
+      const explanation = partial.complete['explanation'] ?? (partial.pending?.key === 'explanation' ? partial.pending.value : '');
+      yield { explanation, response: null };
+    }
+    const parsed = JSON.parse(stripCodeFence(jsonString)) as { explanation?: unknown; operations?: unknown };
+    const response: AiCodeResponse = {
+      explanation: typeof parsed.explanation === 'string' ? parsed.explanation : '',
+      operations: readFileOperations(parsed.operations),
+    };
+    yield { explanation: response.explanation, response };
+  }
+}
+
+// Models without structured output sometimes wrap the JSON in a markdown code block.
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text.trim();
+}
@@ -0,0 +1,61 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { AiChatTurn } from '../utils/ai-chat.utils';
+import { AiProjectFile } from '../utils/ai-operations.utils';
+import { AiCodeAction } from '../utils/ai-prompts.utils';
+import { AiCapability, AiProviderKind, AiProviderSettings, AiSettings, getProviderInfo, readAiSettings } from '../utils/ai-settings.utils';
+import { AiCodeProgress, AiProvider, GroundedResponse } from './ai-provider';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { MockProvider } from './mock.provider';
+
+/** The AI features' way to the model provider chosen in the settings. */
+@Injectable({
+  providedIn: 'root'
+})
+export class AiService {
+  private settings = signal<AiSettings>(readAiSettings(null));
+
+  provider = computed(() => {
+    const { provider, providers } = this.settings();
+    return createProvider(provider, providers[provider]);
+  });
+
+  configure(settings: AiSettings) {
+    this.settings.set(settings);
+  }
+
+  supports(capability: AiCapability): boolean {
+    return this.provider().info.capabilities.includes(capability);
+  }
+
+  streamCodeModification(files: AiProjectFile[], prompt: string, history: AiChatTurn[], signal?: AbortSignal): AsyncGenerator<AiCodeProgress> {
+    return this.provider().streamCodeModification(files, prompt, history, signal);
+  }
+
+  streamCodeAnalysis(code: string, language: string, action: AiCodeAction, signal?: AbortSignal): AsyncGenerator<string> {
+    return this.provider().streamCodeAnalysis(code, language, action, signal);
+  }
+
+  analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<string> {
+    return this.provider().analyzeImage(base64Image, mimeType, prompt);
+  }
+
+  streamGroundedResponse(prompt: string, signal?: AbortSignal): AsyncGenerator<GroundedResponse> {
+    return this.provider().streamGroundedResponse(prompt, signal);
+  }
+
+  /** Fetches the models of a provider with the given settings, which needn't be the saved ones. */
+  listModels(kind: AiProviderKind, settings: AiProviderSettings): Promise<string[]> {
+    return createProvider(kind, settings).listModels();
+  }
+}
+
+function createProvider(kind: AiProviderKind, settings: AiProviderSettings): AiProvider {
+  const info = getProviderInfo(kind);
+  switch (kind) {
+    case 'gemini': return new GeminiProvider(info, settings);
+    case 'openai':
+    case 'local': return new OpenAiCompatibleProvider(info, settings);
+    case 'mock': return new MockProvider(info, settings);
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@angular/core';
+import { ProjectFile } from './project.service';
+
+/**
+ * Hands out object URLs for binary project files and revokes them once the files are gone. Pages with
+ * an origin of their own can't load the editor's object URLs, so for them the files are read into data
+ * URLs instead.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AssetService {
+  private urls = new Map<Blob, string>();
+  private dataUrls = new Map<Blob, string>();
+
+  getUrl(blob: Blob): string {
+    let url = this.urls.get(blob);
+    if (!url) {
+      url = URL.createObjectURL(blob);
+      this.urls.set(blob, url);
+    }
+    return url;
+  }
+
+  /** The data URL of a blob read by `readDataUrls`; an empty string if it hasn't been read. */
+  getDataUrl(blob: Blob): string {
+    return this.dataUrls.get(blob) ?? '';
+  }
+
+  /** Reads the blobs of `files` into data URLs, skipping the ones already read. */
+  async readDataUrls(files: ProjectFile[]): Promise<void> {
+    const blobs = files.map(f => f.blob).filter((blob): blob is Blob => !!blob && !this.dataUrls.has(blob));
+    await Promise.all(blobs.map(blob => new Promise<void>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        this.dataUrls.set(blob, reader.result as string);
+        resolve();
+      };
+      reader.onerror = () => resolve();
+      reader.readAsDataURL(blob);
+    })));
+  }
+
+  /** Revokes the URLs of blobs that no longer belong to any of `files`. */
+  releaseUnused(files: ProjectFile[]) {
+    const live = new Set(files.map(f => f.blob));
+    for (const [blob, url] of this.urls) {
+      if (!live.has(blob)) {
+        URL.revokeObjectURL(url);
+        this.urls.delete(blob);
+      }
+    }
+    for (const blob of this.dataUrls.keys()) {
+      if (!live.has(blob)) this.dataUrls.delete(blob);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { Injectable } from '@angular/core';
+import { ProjectFile } from './project.service';
+import { basename } from '../utils/path.utils';
+import type { CompileError, CompileRequest, CompileResponse } from './compiler.worker';
+
+export type { CompileError } from './compiler.worker';
+
+export interface CompiledFile {
+  code: string;
+  errors: CompileError[];
+  /** Source map (JSON) of TypeScript output. */
+  sourceMap?: string;
+}
+
+interface CacheEntry {
+  result: CompiledFile;
+  /** Content hashes of the other files the output was built from, e.g. SCSS partials. */
+  dependencies: Record<string, string>;
+}
+
+/** Compiles TypeScript and SCSS for the preview in a web worker, caching results by content hash. */
+@Injectable({
+  providedIn: 'root'
+})
+export class CompilerService {
+  private readonly MAX_CACHE_ENTRIES = 200;
+
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, (response: CompileResponse) => void>();
+  private cache = new Map<string, CacheEntry>();
+
+  /** Compiles every TypeScript file and every SCSS stylesheet except partials (`_name.scss`). */
+  async compileProject(files: ProjectFile[]): Promise<Map<string, CompiledFile>> {
+    const sources = files.filter(f => f.language === 'ts' || (f.language === 'scss' && !basename(f.name).startsWith('_')));
+    if (sources.length === 0) return new Map();
+
+    const stylesheets: Record<string, string> = {};
+    for (const file of files) {
+      if (file.language === 'scss') stylesheets[file.name] = file.content;
+    }
+    const results = await Promise.all(sources.map(file => this.compile(file, stylesheets)));
+    return new Map(sources.map((file, index) => [file.name, results[index]]));
+  }
+
+  private async compile(file: ProjectFile, stylesheets: Record<string, string>): Promise<CompiledFile> {
+    const key = `${file.name}\n${this.hash(file.content)}`;
+    const cached = this.cache.get(key);
+    if (cached && Object.entries(cached.dependencies).every(([path, hash]) => path in stylesheets && this.hash(stylesheets[path]) === hash)) {
+      return cached.result;
+    }
+
+    const response = await this.request({
+      language: file.language as CompileRequest['language'],
+      path: file.name,
+      content: file.content,
+      stylesheets: file.language === 'scss' ? stylesheets : {},
+    });
+    const result: CompiledFile = { code: response.code, errors: response.errors, sourceMap: response.sourceMap };
+    const dependencies = Object.fromEntries(response.dependencies.map(path => [path, this.hash(stylesheets[path] ?? '')]));
+
+    this.cache.delete(key);
+    this.cache.set(key, { result, dependencies });
+    if (this.cache.size > this.MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return result;
+  }
+
+  private request(request: Omit<CompileRequest, 'id'>): Promise<CompileResponse> {
+    const id = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pending.set(id, resolve);
+      this.getWorker().postMessage({ ...request, id });
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./compiler.worker', import.meta.url), { type: 'module' });
+      this.worker.onmessage = ({ data }: MessageEvent<CompileResponse>) => {
+        this.pending.get(data.id)?.(data);
+        this.pending.delete(data.id);
+      };
+      this.worker.onerror = (event) => {
+        // A crashed worker can't answer; fail the waiting requests and start a fresh one next time.
+        console.error('Compiler worker failed', event);
+        for (const [id, resolve] of this.pending) {
+          resolve({ id, code: '', errors: [{ path: '', line: 1, column: 1, message: 'Компилятор завершился с ошибкой.' }], dependencies: [] });
+        }
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  /** A fast non-cryptographic 53-bit string hash (cyrb53). */
+  private hash(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+}
@@ -0,0 +1,173 @@
+/// <reference lib="webworker" />
+
+// Transpiles TypeScript and SCSS for the preview off the main thread. The compilers are
+// loaded from the CDN on first use, so projects without .ts/.scss files never download them.
+
+export type CompileLanguage = 'ts' | 'scss';
+
+export interface CompileError {
+  path: string;
+  /** 1-based line and column. */
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface CompileRequest {
+  id: number;
+  language: CompileLanguage;
+  path: string;
+  content: string;
+  /** Other SCSS files of the project, for `@use` and `@import`. */
+  stylesheets: Record<string, string>;
+}
+
+export interface CompileResponse {
+  id: number;
+  code: string;
+  errors: CompileError[];
+  /** Project files the output was built from, besides the compiled file itself. */
+  dependencies: string[];
+  /** Source map of a TypeScript file's output, for mapping runtime errors back to the source. */
+  sourceMap?: string;
+}
+
+const TYPESCRIPT_URL = 'https://next.esm.sh/typescript@~5.8.2';
+const SASS_URL = 'https://next.esm.sh/sass@^1.90.0';
+
+// The parts of the compilers' APIs used here; the packages themselves are only on the CDN.
+interface TypeScriptDiagnostic {
+  code: number;
+  start?: number;
+  file?: { getLineAndCharacterOfPosition(position: number): { line: number; character: number } };
+  /** A string or a chain of messages, which `flattenDiagnosticMessageText` joins. */
+  messageText: unknown;
+}
+
+interface TypeScriptApi {
+  ScriptTarget: { ES2020: number };
+  ModuleKind: { ESNext: number };
+  JsxEmit: { React: number };
+  transpileModule(input: string, options: { fileName: string; reportDiagnostics: boolean; compilerOptions: Record<string, unknown> }): {
+    outputText: string;
+    sourceMapText?: string;
+    diagnostics?: TypeScriptDiagnostic[];
+  };
+  flattenDiagnosticMessageText(messageText: unknown, newLine: string): string;
+}
+
+interface SassImporter {
+  canonicalize(url: string, context: { containingUrl: URL | null }): URL | null;
+  load(canonicalUrl: URL): { contents: string; syntax: 'scss' };
+}
+
+interface SassApi {
+  compileString(source: string, options: {
+    syntax: 'scss';
+    url: URL;
+    importer: SassImporter;
+    importers: SassImporter[];
+    logger: { warn(): void; debug(): void };
+  }): { css: string };
+}
+
+/** What Sass throws for errors in the stylesheet. */
+interface SassException extends Error {
+  sassMessage: string;
+  span?: { url?: URL; start: { line: number; column: number } };
+}
+
+let typescript: Promise<TypeScriptApi> | null = null;
+let sass: Promise<SassApi> | null = null;
+
+// Variable specifiers keep the bundler from trying to resolve the CDN modules.
+function load<T>(url: string): Promise<T> {
+  return import(/* @vite-ignore */ url);
+}
+
+addEventListener('message', async ({ data }: MessageEvent<CompileRequest>) => {
+  let response: CompileResponse;
+  try {
+    response = data.language === 'ts' ? await compileTypeScript(data) : await compileScss(data);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    response = { id: data.id, code: '', errors: [{ path: data.path, line: 1, column: 1, message: `Не удалось загрузить компилятор: ${message}` }], dependencies: [] };
+  }
+  postMessage(response);
+});
+
+async function compileTypeScript(request: CompileRequest): Promise<CompileResponse> {
+  const ts = await (typescript ??= load<TypeScriptApi & { default?: TypeScriptApi }>(TYPESCRIPT_URL).then(module => module.default ?? module, e => { typescript = null; throw e; }));
+  const output = ts.transpileModule(request.content, {
+    fileName: request.path,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      jsx: ts.JsxEmit.React,
+      sourceMap: true,
+    },
+  });
+  const errors: CompileError[] = (output.diagnostics ?? []).map(diagnostic => {
+    const position = diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 };
+    return {
+      path: request.path,
+      line: position.line + 1,
+      column: position.character + 1,
+      message: `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
+    };
+  });
+  // The map is handed over separately, so drop the comment pointing at a .map file that doesn't exist.
+  const code = output.outputText.replace(/\n\/\/# sourceMappingURL=\S*\s*$/, '\n');
+  return { id: request.id, code, errors, dependencies: [], sourceMap: output.sourceMapText };
+}
+
+async function compileScss(request: CompileRequest): Promise<CompileResponse> {
+  const compiler = await (sass ??= load<SassApi>(SASS_URL).catch(e => { sass = null; throw e; }));
+  const dependencies = new Set<string>();
+  // Project files are addressed as project:/<path> so Sass can resolve relative loads itself.
+  const toUrl = (path: string) => new URL(`project:/${path}`);
+  const toPath = (url: URL) => decodeURIComponent(url.pathname.replace(/^\//, ''));
+
+  const importer: SassImporter = {
+    canonicalize(url: string, context: { containingUrl: URL | null }) {
+      const base = context.containingUrl ?? toUrl(request.path);
+      const resolved = toPath(new URL(url, base));
+      const folder = resolved.includes('/') ? resolved.slice(0, resolved.lastIndexOf('/') + 1) : '';
+      const name = resolved.slice(folder.length);
+      // The usual Sass lookup: partials, optional extension and folder index files.
+      const candidates = [resolved, `${resolved}.scss`, `${folder}_${name}`, `${folder}_${name}.scss`, `${resolved}/index.scss`, `${resolved}/_index.scss`];
+      const match = candidates.find(candidate => candidate in request.stylesheets);
+      return match ? toUrl(match) : null;
+    },
+    load(canonicalUrl: URL) {
+      const path = toPath(canonicalUrl);
+      dependencies.add(path);
+      return { contents: request.stylesheets[path], syntax: 'scss' };
+    },
+  };
+
+  try {
+    const result = compiler.compileString(request.content, {
+      syntax: 'scss',
+      url: toUrl(request.path),
+      importer,
+      importers: [importer],
+      logger: { warn() {}, debug() {} },
+    });
+    return { id: request.id, code: result.css, errors: [], dependencies: [...dependencies] };
+  } catch (e) {
+    const exception: Partial<SassException> = e instanceof Error ? e : {};
+    const span = exception.span;
+    const path = span?.url ? toPath(span.url) : request.path;
+    const message = exception.sassMessage ?? (e instanceof Error ? e.message : String(e));
+    return {
+      id: request.id,
+      code: '',
+      errors: [{ path, line: (span?.start.line ?? 0) + 1, column: (span?.start.column ?? 0) + 1, message }],
+      dependencies: [...dependencies],
+    };
+  }
+}
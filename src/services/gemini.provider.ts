@@ -0,0 +1,181 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { AiChatTurn } from '../utils/ai-chat.utils';
+import { AiProjectFile } from '../utils/ai-operations.utils';
+import { AiCodeAction, buildCodeAnalysisPrompt, buildCodeModificationPrompt, CODE_ANALYSIS_INSTRUCTION, CODE_MODIFICATION_INSTRUCTION } from '../utils/ai-prompts.utils';
+import { AiProviderInfo, AiProviderSettings } from '../utils/ai-settings.utils';
+import { AiCodeProgress, AiProvider, GroundedResponse, GroundingChunk } from './ai-provider';
+
+/** Google's Gemini API through the `@google/genai` SDK. */
+export class GeminiProvider extends AiProvider {
+  private ai: GoogleGenAI | null = null;
+
+  constructor(info: AiProviderInfo, settings: AiProviderSettings) {
+    super(info, settings);
+    if (settings.apiKey.trim()) {
+      try {
+        this.ai = new GoogleGenAI({ apiKey: settings.apiKey });
+      } catch (e) {
+        console.error('Error initializing GoogleGenAI:', e);
+        this.ai = null;
+      }
+    }
+  }
+
+  private ensureAiInitialized(): GoogleGenAI {
+    if (!this.ai) {
+      throw new Error('Ключ API не установлен. Пожалуйста, добавьте его в настройках.');
+    }
+    return this.ai;
+  }
+
+  private handleError(error: unknown, signal?: AbortSignal): never {
+    // A cancelled request isn't a failure; the caller knows it cancelled it.
+    if (signal?.aborted) throw error;
+    console.error('Gemini API Error:', error);
+    if (error instanceof Error) {
+        if (error.message.includes('API key not valid')) {
+            throw new Error('Ключ API недействителен. Проверьте правильность ключа в настройках.');
+        }
+        if (error.message.includes('JSON')) {
+            throw new Error('AI вернул некорректный формат данных. Попробуйте переформулировать запрос.');
+        }
+        if (error.message.includes('Ключ API не установлен')) {
+            throw error;
+        }
+    }
+    throw new Error('Произошла ошибка при обращении к AI.');
+  }
+
+  async *streamCodeModification(files: AiProjectFile[], prompt: string, history: AiChatTurn[], signal?: AbortSignal): AsyncGenerator<AiCodeProgress> {
+    try {
+      const ai = this.ensureAiInitialized();
+      const responseSchema = {
+          type: Type.OBJECT,
+          properties: {
+              explanation: { type: Type.STRING, description: 'An explanation of the changes you are making.' },
+              operations: {
+                  type: Type.ARRAY,
+                  description: 'The file operations to apply, in order.',
+                  items: {
+                      type: Type.OBJECT,
+                      properties: {
+                          type: { type: Type.STRING, enum: ['create', 'modify', 'delete', 'rename'] },
+                          path: { type: Type.STRING, description: 'The path of the file.' },
+                          newPath: { type: Type.STRING, description: 'For "rename": the new path of the file.' },
+                          content: { type: Type.STRING, description: 'For "create" and "modify": the complete content of the file.' },
+                      },
+                      required: ['type', 'path'],
+                      propertyOrdering: ['type', 'path', 'newPath', 'content'],
+                  },
+              },
+          },
+          required: ['explanation', 'operations'],
+          // The explanation comes first so it can be shown while the operations are still arriving.
+          propertyOrdering: ['explanation', 'operations'],
+      };
+
+      const stream = await ai.models.generateContentStream({
+        model: this.settings.model,
+        contents: [
+          ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+          { role: 'user', parts: [{ text: buildCodeModificationPrompt(files, prompt) }] },
+        ],
+        config: {
+          systemInstruction: CODE_MODIFICATION_INSTRUCTION,
+          responseMimeType: 'application/json',
+          responseSchema,
+          temperature: 0.2,
+          abortSignal: signal,
+        },
+      });
+
+      yield* this.readCodeModification(textOf(stream));
+
+    } catch (error) {
+      this.handleError(error, signal);
+    }
+  }
+
+  async *streamCodeAnalysis(code: string, language: string, action: AiCodeAction, signal?: AbortSignal): AsyncGenerator<string> {
+    try {
+        const ai = this.ensureAiInitialized();
+        const stream = await ai.models.generateContentStream({
+            model: this.settings.model,
+            contents: buildCodeAnalysisPrompt(code, language, action),
+            config: {
+                systemInstruction: CODE_ANALYSIS_INSTRUCTION,
+                temperature: 0.3,
+                abortSignal: signal,
+            }
+        });
+
+        let text = '';
+        for await (const chunk of textOf(stream)) {
+            text += chunk;
+            yield text.trim();
+        }
+
+    } catch (error) {
+        this.handleError(error, signal);
+    }
+  }
+
+  async analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<string> {
+    try {
+      const ai = this.ensureAiInitialized();
+      const imagePart = {
+        inlineData: {
+          mimeType,
+          data: base64Image,
+        },
+      };
+
+      const textPart = {
+        text: prompt,
+      };
+
+      const response = await ai.models.generateContent({
+        model: this.settings.model,
+        contents: { parts: [imagePart, textPart] },
+      });
+
+      return response.text ?? '';
+
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async *streamGroundedResponse(prompt: string, signal?: AbortSignal): AsyncGenerator<GroundedResponse> {
+    try {
+      const ai = this.ensureAiInitialized();
+      const stream = await ai.models.generateContentStream({
+        model: this.settings.model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal: signal,
+        },
+      });
+
+      // Sources usually come with the last chunks.
+      let text = '';
+      let chunks: GroundingChunk[] = [];
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        const grounding = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+        if (grounding?.length) chunks = grounding as GroundingChunk[];
+        yield { text, chunks };
+      }
+
+    } catch (error) {
+      this.handleError(error, signal);
+    }
+  }
+}
+
+async function* textOf(stream: AsyncIterable<{ text?: string }>): AsyncGenerator<string> {
+  for await (const chunk of stream) {
+    yield chunk.text ?? '';
+  }
+}
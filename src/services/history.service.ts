@@ -0,0 +1,153 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { StorageService } from './storage.service';
+import { ProjectFile, ProjectService } from './project.service';
+import { isInFolder, rebasePath } from '../utils/path.utils';
+
+export type SnapshotReason = 'ai' | 'manual' | 'auto' | 'restore';
+
+export interface FileSnapshot {
+  key: string;
+  path: string;
+  content: string;
+  reason: SnapshotReason;
+  timestamp: string;
+}
+
+/**
+ * Local revision history. Snapshots live in the `history` store under
+ * `<projectId>/<encoded path>/<timestamp>`, so they can be listed per file and
+ * removed together with their project.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryService {
+  private storage = inject(StorageService);
+  private projectService = inject(ProjectService);
+
+  private readonly MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+  private readonly MAX_PROJECT_BYTES = 10 * 1024 * 1024;
+  private readonly PRUNE_INTERVAL_MS = 60 * 1000;
+
+  /** Incremented after every change so views can reload their snapshot lists. */
+  version = signal(0);
+
+  // Last captured content per `<projectId>/<path>`, used to skip auto snapshots that wouldn't differ.
+  private lastContent = new Map<string, string>();
+  private lastPruneAt = 0;
+
+  /** Records the current contents as already captured, so auto snapshots only store real changes. */
+  setBaseline(files: ProjectFile[]) {
+    const projectId = this.projectService.activeProjectId();
+    for (const file of files) {
+      this.lastContent.set(`${projectId}/${file.name}`, file.content);
+    }
+  }
+
+  async addSnapshot(path: string, content: string, reason: SnapshotReason): Promise<void> {
+    const projectId = this.projectService.activeProjectId();
+    const contentKey = `${projectId}/${path}`;
+    // Only automatic snapshots are deduplicated; explicit ones must exist even if nothing changed since load.
+    if (reason === 'auto' && this.lastContent.get(contentKey) === content) return;
+
+    const timestamp = new Date().toISOString();
+    const snapshot: FileSnapshot = { key: `${this.filePrefix(projectId, path)}${timestamp}`, path, content, reason, timestamp };
+    try {
+      await this.storage.put('history', snapshot.key, snapshot);
+    } catch {
+      return; // Already reported by the storage.
+    }
+    this.lastContent.set(contentKey, content);
+    this.version.update(v => v + 1);
+
+    if (Date.now() - this.lastPruneAt > this.PRUNE_INTERVAL_MS) {
+      await this.prune(projectId).catch(e => console.error('Failed to prune file history', e));
+    }
+  }
+
+  /** Stores an `auto` snapshot of every text file that changed since its last snapshot. */
+  async snapshotChangedFiles(files: ProjectFile[]): Promise<void> {
+    for (const file of files) {
+      if (file.language === 'binary') continue;
+      await this.addSnapshot(file.name, file.content, 'auto');
+    }
+  }
+
+  /** Lists the snapshots of a file in the active project, newest first. */
+  async getSnapshots(path: string): Promise<FileSnapshot[]> {
+    const snapshots = await this.storage.getAllByPrefix<FileSnapshot>('history', this.filePrefix(this.projectService.activeProjectId(), path));
+    return snapshots.reverse();
+  }
+
+  /**
+   * Moves the snapshots of a renamed file, or of every file in a moved folder, to the new paths.
+   * Rejects if the storage fails; snapshots moved until then stay moved.
+   */
+  async movePath(from: string, to: string): Promise<void> {
+    const projectId = this.projectService.activeProjectId();
+    for (const [key, content] of [...this.lastContent]) {
+      if (!this.isKeyIn(key, projectId, from)) continue;
+      this.lastContent.delete(key);
+      this.lastContent.set(`${projectId}/${rebasePath(key.slice(projectId.length + 1), from, to)}`, content);
+    }
+    try {
+      for (const snapshot of await this.getSnapshotsIn(projectId, from)) {
+        const path = rebasePath(snapshot.path, from, to);
+        const moved: FileSnapshot = { ...snapshot, key: `${this.filePrefix(projectId, path)}${snapshot.timestamp}`, path };
+        await this.storage.put('history', moved.key, moved);
+        await this.storage.delete('history', snapshot.key);
+      }
+    } finally {
+      this.version.update(v => v + 1);
+    }
+  }
+
+  /** Removes the snapshots of a deleted file, or of every file in a deleted folder. Rejects if the storage fails. */
+  async deletePath(path: string): Promise<void> {
+    const projectId = this.projectService.activeProjectId();
+    for (const key of [...this.lastContent.keys()]) {
+      if (this.isKeyIn(key, projectId, path)) this.lastContent.delete(key);
+    }
+    try {
+      await Promise.all((await this.getSnapshotsIn(projectId, path)).map(s => this.storage.delete('history', s.key)));
+    } finally {
+      this.version.update(v => v + 1);
+    }
+  }
+
+  /** Drops snapshots older than the age limit, then the oldest ones until the project fits the size limit. */
+  async prune(projectId: string): Promise<void> {
+    this.lastPruneAt = Date.now();
+    const snapshots = await this.storage.getAllByPrefix<FileSnapshot>('history', `${projectId}/`);
+    snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const cutoff = new Date(Date.now() - this.MAX_AGE_MS).toISOString();
+    let totalBytes = snapshots.reduce((sum, s) => sum + s.content.length * 2, 0);
+    const expired: FileSnapshot[] = [];
+    for (const snapshot of snapshots) {
+      if (snapshot.timestamp >= cutoff && totalBytes <= this.MAX_PROJECT_BYTES) break;
+      expired.push(snapshot);
+      totalBytes -= snapshot.content.length * 2;
+    }
+    if (expired.length === 0) return;
+
+    await Promise.all(expired.map(s => this.storage.delete('history', s.key).catch(() => {})));
+    this.version.update(v => v + 1);
+  }
+
+  // Paths are encoded whole, so the snapshots of a folder's files share the encoded folder as a
+  // prefix along with those of its namesakes ("a" and "ab.js"); the paths tell them apart.
+  private async getSnapshotsIn(projectId: string, path: string): Promise<FileSnapshot[]> {
+    const snapshots = await this.storage.getAllByPrefix<FileSnapshot>('history', `${projectId}/${encodeURIComponent(path)}`);
+    return snapshots.filter(s => isInFolder(s.path, path));
+  }
+
+  /** Whether a `lastContent` key belongs to `path` or to a file in it. */
+  private isKeyIn(key: string, projectId: string, path: string): boolean {
+    return key.startsWith(`${projectId}/`) && isInFolder(key.slice(projectId.length + 1), path);
+  }
+
+  private filePrefix(projectId: string, path: string): string {
+    return `${projectId}/${encodeURIComponent(path)}/`;
+  }
+}
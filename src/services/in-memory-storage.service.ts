@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { StorageService, StoreName } from './storage.service';
+
+/** Non-persistent storage for tests and environments without IndexedDB. */
+@Injectable()
+export class InMemoryStorageService extends StorageService {
+  private stores = new Map<StoreName, Map<string, unknown>>();
+
+  async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    const value = this.getStore(store).get(key);
+    return value === undefined ? undefined : structuredClone(value) as T;
+  }
+
+  async getAllByPrefix<T>(store: StoreName, prefix: string): Promise<T[]> {
+    return [...this.getStore(store).entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([, value]) => structuredClone(value) as T);
+  }
+
+  async put(store: StoreName, key: string, value: unknown): Promise<void> {
+    this.getStore(store).set(key, structuredClone(value));
+  }
+
+  async delete(store: StoreName, key: string): Promise<void> {
+    this.getStore(store).delete(key);
+  }
+
+  async deleteByPrefix(store: StoreName, prefix: string): Promise<void> {
+    const entries = this.getStore(store);
+    for (const key of [...entries.keys()]) {
+      if (key.startsWith(prefix)) entries.delete(key);
+    }
+  }
+
+  private getStore(store: StoreName): Map<string, unknown> {
+    let entries = this.stores.get(store);
+    if (!entries) {
+      entries = new Map();
+      this.stores.set(store, entries);
+    }
+    return entries;
+  }
+}
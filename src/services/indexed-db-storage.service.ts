@@ -0,0 +1,97 @@
+import { Injectable } from '@angular/core';
+import { STORE_NAMES, StorageService, StoreName } from './storage.service';
+import { InMemoryStorageService } from './in-memory-storage.service';
+
+@Injectable()
+export class IndexedDbStorageService extends StorageService {
+  private readonly DB_NAME = 'ai-code-editor';
+  private readonly DB_VERSION = 2;
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  /** Takes over every read and write once IndexedDB turned out to be unusable. */
+  private fallback: InMemoryStorageService | null = null;
+
+  get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    if (this.fallback) return this.fallback.get(store, key);
+    return this.request(store, 'readonly', s => s.get(key));
+  }
+
+  getAllByPrefix<T>(store: StoreName, prefix: string): Promise<T[]> {
+    if (this.fallback) return this.fallback.getAllByPrefix(store, prefix);
+    return this.request(store, 'readonly', s => s.getAll(this.prefixRange(prefix)));
+  }
+
+  put(store: StoreName, key: string, value: unknown): Promise<void> {
+    if (this.fallback) return this.fallback.put(store, key, value);
+    return this.write(store, s => s.put(value, key));
+  }
+
+  delete(store: StoreName, key: string): Promise<void> {
+    if (this.fallback) return this.fallback.delete(store, key);
+    return this.write(store, s => s.delete(key));
+  }
+
+  deleteByPrefix(store: StoreName, prefix: string): Promise<void> {
+    if (this.fallback) return this.fallback.deleteByPrefix(store, prefix);
+    return this.write(store, s => s.delete(this.prefixRange(prefix)));
+  }
+
+  override useMemoryFallback(error: unknown) {
+    super.useMemoryFallback(error);
+    this.fallback = new InMemoryStorageService();
+  }
+
+  private prefixRange(prefix: string): IDBKeyRange {
+    return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    const promise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORE_NAMES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Хранилище заблокировано другой вкладкой редактора.'));
+    });
+
+    // If opening fails, allow a later call to retry.
+    promise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    this.dbPromise = promise;
+    return this.dbPromise;
+  }
+
+  private async request<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(store, mode);
+      const request = action(transaction.objectStore(store));
+      // Writes only count once the transaction commits; quota errors surface as an abort.
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onabort = () => reject(transaction.error ?? request.error);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+    });
+  }
+
+  private async write(store: StoreName, action: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    try {
+      await this.request<unknown>(store, 'readwrite', action);
+    } catch (error) {
+      this.reportWriteError(error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { AiChatTurn } from '../utils/ai-chat.utils';
+import { AiFileOperation, AiProjectFile } from '../utils/ai-operations.utils';
+import { AiCodeAction } from '../utils/ai-prompts.utils';
+import { AiCodeProgress, AiProvider, GroundedResponse } from './ai-provider';
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 20;
+
+/**
+ * A stand-in that answers without the network. The same request always gets the same answer, and
+ * answers stream in small chunks like real ones, so the AI flows (streaming, cancelling, reviewing
+ * and applying changes) can be tried and checked offline.
+ */
+export class MockProvider extends AiProvider {
+  async *streamCodeModification(files: AiProjectFile[], prompt: string, history: AiChatTurn[], signal?: AbortSignal): AsyncGenerator<AiCodeProgress> {
+    yield* this.readCodeModification(streamText(JSON.stringify(this.getCodeResponse(files, prompt, history)), signal));
+  }
+
+  async *streamCodeAnalysis(code: string, language: string, action: AiCodeAction, signal?: AbortSignal): AsyncGenerator<string> {
+    const lines = code.split('\n').length;
+    const text = `**Тестовый ответ** (${action}, ${language}): фрагмент из ${lines} строк, ${code.length} символов.\n\n\`\`\`${language}\n${code}\n\`\`\``;
+    let result = '';
+    for await (const chunk of streamText(text, signal)) {
+      result += chunk;
+      yield result.trim();
+    }
+  }
+
+  async analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<string> {
+    await delay(CHUNK_DELAY_MS);
+    const size = Math.floor(base64Image.length * 3 / 4);
+    return `Тестовое описание изображения ${mimeType} (около ${size} байт) по запросу «${prompt}».`;
+  }
+
+  async *streamGroundedResponse(prompt: string, signal?: AbortSignal): AsyncGenerator<GroundedResponse> {
+    const chunks = [{ web: { uri: `https://example.com/search?q=${encodeURIComponent(prompt)}`, title: `Тестовый источник: ${prompt}` } }];
+    let text = '';
+    for await (const chunk of streamText(`Тестовый ответ на вопрос «${prompt}».`, signal)) {
+      text += chunk;
+      yield { text, chunks: [] };
+    }
+    yield { text, chunks };
+  }
+
+  override async listModels(): Promise<string[]> {
+    return [...this.info.defaults.models];
+  }
+
+  // Marks the main page with the request, creating one in an empty project.
+  private getCodeResponse(files: AiProjectFile[], prompt: string, history: AiChatTurn[]): { explanation: string; operations: AiFileOperation[] } {
+    const turn = history.length / 2 + 1;
+    const comment = `<!-- Тестовое изменение ${turn}: ${prompt.replace(/--/g, '- -')} -->`;
+    const page = files.find(f => f.path === 'index.html' && f.content !== null) ?? files.find(f => f.path.endsWith('.html') && f.content !== null);
+    const operations: AiFileOperation[] = page
+      ? [{ type: 'modify', path: page.path, content: `${page.content}\n${comment}\n` }]
+      : [{ type: 'create', path: 'index.html', content: `<!DOCTYPE html>\n<html>\n<body>\n${comment}\n</body>\n</html>\n` }];
+    return {
+      explanation: `Тестовый ответ на запрос «${prompt}» (сообщение ${turn} в чате): ${page ? `в ${page.path} добавлен комментарий` : 'создан index.html'}.`,
+      operations,
+    };
+  }
+}
+
+async function* streamText(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    await delay(CHUNK_DELAY_MS);
+    signal?.throwIfAborted();
+    yield text.slice(i, i + CHUNK_SIZE);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
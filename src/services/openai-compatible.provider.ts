@@ -0,0 +1,176 @@
+import { AiChatTurn } from '../utils/ai-chat.utils';
+import { AiProjectFile } from '../utils/ai-operations.utils';
+import { AiCodeAction, buildCodeAnalysisPrompt, buildCodeModificationPrompt, CODE_ANALYSIS_INSTRUCTION, CODE_MODIFICATION_INSTRUCTION, CODE_MODIFICATION_SCHEMA } from '../utils/ai-prompts.utils';
+import { AiCodeProgress, AiProvider, GroundedResponse } from './ai-provider';
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: ChatContent;
+}
+
+interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  response_format?: unknown;
+}
+
+/**
+ * Any API that follows OpenAI's Chat Completions: OpenAI itself, hosted services with a compatible
+ * endpoint, and local model servers (Ollama, LM Studio, llama.cpp). Answers stream in as
+ * server-sent events.
+ */
+export class OpenAiCompatibleProvider extends AiProvider {
+  private get baseUrl(): string {
+    return this.settings.baseUrl.trim().replace(/\/+$/, '');
+  }
+
+  async *streamCodeModification(files: AiProjectFile[], prompt: string, history: AiChatTurn[], signal?: AbortSignal): AsyncGenerator<AiCodeProgress> {
+    try {
+      // Local servers don't all take a JSON schema, but they do take a request for plain JSON.
+      const responseFormat = this.info.kind === 'openai'
+        ? { type: 'json_schema', json_schema: { name: 'code_modification', schema: CODE_MODIFICATION_SCHEMA } }
+        : { type: 'json_object' };
+      const chunks = this.streamChat({
+        messages: [
+          { role: 'system', content: CODE_MODIFICATION_INSTRUCTION },
+          ...history.map((turn): ChatMessage => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+          { role: 'user', content: buildCodeModificationPrompt(files, prompt) },
+        ],
+        temperature: 0.2,
+        response_format: responseFormat,
+      }, signal);
+      yield* this.readCodeModification(chunks);
+    } catch (error) {
+      this.handleError(error, signal);
+    }
+  }
+
+  async *streamCodeAnalysis(code: string, language: string, action: AiCodeAction, signal?: AbortSignal): AsyncGenerator<string> {
+    try {
+      const chunks = this.streamChat({
+        messages: [
+          { role: 'system', content: CODE_ANALYSIS_INSTRUCTION },
+          { role: 'user', content: buildCodeAnalysisPrompt(code, language, action) },
+        ],
+        temperature: 0.3,
+      }, signal);
+      let text = '';
+      for await (const chunk of chunks) {
+        text += chunk;
+        yield text.trim();
+      }
+    } catch (error) {
+      this.handleError(error, signal);
+    }
+  }
+
+  async analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<string> {
+    try {
+      const response = await this.request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: this.settings.model,
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+              { type: 'text', text: prompt },
+            ],
+          }],
+        }),
+      });
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content ?? '';
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async *streamGroundedResponse(): AsyncGenerator<GroundedResponse> {
+    throw this.unsupported('search');
+  }
+
+  override async listModels(): Promise<string[]> {
+    try {
+      const response = await this.request('/models', { method: 'GET' });
+      const data = await response.json();
+      const models: unknown[] = Array.isArray(data?.data) ? data.data.map((m: { id?: unknown }) => m?.id) : [];
+      return models.filter((id): id is string => typeof id === 'string').sort();
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  /** Sends a chat request and yields the text of the answer as it streams in. */
+  private async *streamChat(chat: ChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({ model: this.settings.model, stream: true, ...chat }),
+      signal,
+    });
+    if (!response.body) throw new Error('Сервер не вернул ответ.');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim().match(/^data:\s*(.*)$/)?.[1];
+          if (!data) continue;
+          if (data === '[DONE]') return;
+          const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof text === 'string' && text) yield text;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    if (!this.baseUrl) {
+      throw new Error('Адрес API не указан. Пожалуйста, добавьте его в настройках.');
+    }
+    if (!this.settings.model && path !== '/models') {
+      throw new Error('Модель не выбрана. Пожалуйста, укажите её в настройках.');
+    }
+    if (this.info.requiresApiKey && !this.settings.apiKey.trim()) {
+      throw new Error('Ключ API не установлен. Пожалуйста, добавьте его в настройках.');
+    }
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey.trim()) headers['Authorization'] = `Bearer ${this.settings.apiKey.trim()}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, { ...init, headers });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new Error(`Не удалось подключиться к ${this.baseUrl}. Проверьте адрес и что сервер разрешает запросы из браузера (CORS).`);
+    }
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('Ключ API недействителен. Проверьте правильность ключа в настройках.');
+      }
+      const details = await response.json().then(data => data?.error?.message ?? data?.error, () => null);
+      throw new Error(`Сервер ответил ошибкой ${response.status}${typeof details === 'string' && details ? `: ${details}` : '.'}`);
+    }
+    return response;
+  }
+
+  private handleError(error: unknown, signal?: AbortSignal): never {
+    // A cancelled request isn't a failure; the caller knows it cancelled it.
+    if (signal?.aborted) throw error;
+    console.error(`${this.info.label} API Error:`, error);
+    if (error instanceof SyntaxError) {
+      throw new Error('AI вернул некорректный формат данных. Попробуйте переформулировать запрос.');
+    }
+    throw error instanceof Error ? error : new Error('Произошла ошибка при обращении к AI.');
+  }
+}
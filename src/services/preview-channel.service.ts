@@ -0,0 +1,56 @@
+import { Injectable } from '@angular/core';
+import { EditorMessage, PreviewMessage, readPreviewMessage, wrapMessage } from '../utils/preview-protocol.utils';
+
+/** A window the preview runs in: the iframe docked in the editor, or the detached preview window. */
+export type PreviewTarget = 'docked' | 'detached';
+
+/**
+ * Messaging with the preview runtime. Several previews can run at once, so messages from them are
+ * attributed to their target, and messages to the preview go to a single target or to all of them.
+ * Messages follow the protocol in preview-protocol.utils.ts; anything else arriving is ignored.
+ */
+@Injectable({ providedIn: 'root' })
+export class PreviewChannelService {
+  private targets = new Map<PreviewTarget, Window>();
+
+  /** `window` is where messages for the target are posted and where its messages come from. */
+  register(target: PreviewTarget, window: Window) {
+    this.targets.set(target, window);
+  }
+
+  unregister(target: PreviewTarget) {
+    this.targets.delete(target);
+  }
+
+  /** The target a message came from, or null if it isn't from a preview. */
+  private findTarget(source: MessageEventSource | null): PreviewTarget | null {
+    for (const [target, window] of this.targets) {
+      if (window === source) return target;
+    }
+    return null;
+  }
+
+  /**
+   * The message an event carries and the target it came from, or null if it isn't a valid message
+   * from a preview. Isolated pages post from an opaque origin, seen here as 'null'.
+   */
+  receive(event: MessageEvent): { target: PreviewTarget; message: PreviewMessage } | null {
+    if (event.origin !== 'null' && event.origin !== location.origin) return null;
+    const target = this.findTarget(event.source);
+    const message = target && readPreviewMessage(event.data);
+    return target && message ? { target, message } : null;
+  }
+
+  /** Posts a message to `target`, or to every target if omitted. Returns false if there was nobody to post to. */
+  post(message: EditorMessage, target?: PreviewTarget): boolean {
+    const windows = target ? [this.targets.get(target)] : [...this.targets.values()];
+    let posted = false;
+    for (const window of windows) {
+      if (!window) continue;
+      // An isolated page's origin is opaque, so it can't be named as the recipient.
+      window.postMessage(wrapMessage(message), '*');
+      posted = true;
+    }
+    return posted;
+  }
+}
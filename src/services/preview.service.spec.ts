@@ -0,0 +1,104 @@
+import '@angular/compiler';
+import { Injector } from '@angular/core';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { Script } from 'node:vm';
+import { describe, expect, it } from 'vitest';
+import { PREVIEW_PROTOCOL, PREVIEW_PROTOCOL_VERSION } from '../utils/preview-protocol.utils';
+import { AssetService } from './asset.service';
+import { PreviewOptions, PreviewService } from './preview.service';
+import { ProjectFile } from './project.service';
+
+describe('preview runtime', () => {
+  const preview = Injector.create({ providers: [PreviewService, AssetService] }).get(PreviewService);
+  const getRuntime = (files: ProjectFile[] = [], options?: PreviewOptions) => {
+    const { html } = preview.buildDocument([{ name: 'index.html', content: '<p>Hi</p>', language: 'html' }, ...files], 'index.html', new Map(), options);
+    return html.match(/<script>([\s\S]*?)<\/script>/)![1];
+  };
+
+  /** Runs the runtime and then `script` as separate scripts of a page, which share its top-level scope. */
+  const loadPage = (script: string, runtime = getRuntime()) => {
+    // A virtual console that goes nowhere keeps the page's logs out of the test output.
+    const dom = new JSDOM('<!DOCTYPE html><p>Hi</p>', { url: 'https://editor.test/', runScripts: 'outside-only', virtualConsole: new VirtualConsole() });
+    const messages: { type: string; payload: unknown }[] = [];
+    dom.window.addEventListener('message', event => {
+      if (event.data?.protocol === PREVIEW_PROTOCOL) messages.push(event.data);
+    });
+    new Script(runtime).runInContext(dom.getInternalVMContext());
+    new Script(script).runInContext(dom.getInternalVMContext());
+    return { window: dom.window, messages };
+  };
+  // jsdom's postMessage leaves out the source and origin the runtime checks, so messages from the
+  // editor are dispatched as a top-level page would get them, and answers are awaited.
+  const send = (window: JSDOM['window'], type: string, payload: unknown) => {
+    const data = { protocol: PREVIEW_PROTOCOL, version: PREVIEW_PROTOCOL_VERSION, type, payload };
+    window.dispatchEvent(new window.MessageEvent('message', { data, source: window as unknown as MessageEventSource, origin: 'https://editor.test' }));
+    return new Promise(resolve => setTimeout(resolve));
+  };
+  const received = (messages: { type: string; payload: unknown }[], type: string) => messages.filter(m => m.type === type).map(m => m.payload);
+
+  it('runs page scripts that declare the names the runtime uses', async () => {
+    const { window, messages } = loadPage(`
+      let objects = [];
+      const timers = {};
+      function highlight() {}
+      const originalConsole = console, PROTOCOL = 1, EDITOR_ORIGIN = 2, postToEditor = 3, serialize = 4, getProperties = 5, postLog = 6;
+      console.log('loaded', objects.length);
+    `);
+    expect(window.eval('typeof highlight')).toBe('function');
+    await new Promise(resolve => setTimeout(resolve));
+    expect(messages).toEqual([expect.objectContaining({
+      version: PREVIEW_PROTOCOL_VERSION,
+      type: 'CONSOLE_LOG',
+      payload: expect.objectContaining({ type: 'log', data: [{ type: 'string', value: 'loaded' }, { type: 'number', value: 0, description: '0' }] }),
+    })]);
+  });
+
+  it('answers the console REPL on pages that define evaluate and complete', async () => {
+    const { window, messages } = loadPage('const evaluate = 41; function complete() { return "page"; }');
+    await send(window, 'EVAL', { id: 1, code: 'evaluate + 1' });
+    await send(window, 'COMPLETE', { id: 2, expression: 'compl' });
+    expect(received(messages, 'EVAL_RESULT')).toEqual([{ id: 1, ok: true, value: { type: 'number', value: 42, description: '42' } }]);
+    expect(received(messages, 'COMPLETIONS')).toEqual([{ id: 2, items: expect.arrayContaining(['complete']) }]);
+  });
+
+  it('answers mocked requests on pages that use the names of the network state', async () => {
+    const mocks: ProjectFile = { name: 'mocks.json', content: '[{ "url": "/api/users", "body": [] }]', language: 'json' };
+    const { window, messages } = loadPage(`
+      let mockRules = [];
+      const originalFetch = null;
+      const xhrState = 'page';
+      const xhr = new XMLHttpRequest();
+      xhr.open('GET', '/api/users');
+      xhr.send();
+    `, getRuntime([mocks], { mocks: true }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(window.eval('xhrState')).toBe('page');
+    expect(received(messages, 'NETWORK_REQUEST')).toEqual([expect.objectContaining({ url: 'https://editor.test/api/users', mocked: true })]);
+    expect(received(messages, 'NETWORK_RESPONSE')).toEqual([expect.objectContaining({ status: 200, responseBody: '[]' })]);
+  });
+
+  it('counts and times on pages that declare counters and timers', async () => {
+    const { messages } = loadPage(`
+      const counters = new Map();
+      let timers = [];
+      console.count('clicks');
+      console.count('clicks');
+      console.time('load');
+      console.timeEnd('load');
+    `);
+    await new Promise(resolve => setTimeout(resolve));
+    const logs = received(messages, 'CONSOLE_LOG') as { data: { value: string }[] }[];
+    expect(logs.map(log => log.data[0].value)).toEqual(['clicks: 1', 'clicks: 2', expect.stringMatching(/^load: [\d.]+ ms$/)]);
+  });
+
+  it('picks elements on pages that declare the inspector state names', async () => {
+    const { window, messages } = loadPage('let inspecting = "page", hovered = null, highlight = null; function setInspecting() {}');
+    await send(window, 'SET_INSPECT', { enabled: true });
+    const paragraph = window.document.querySelector('p')!;
+    paragraph.dispatchEvent(new window.MouseEvent('mouseover', { bubbles: true }));
+    paragraph.dispatchEvent(new window.MouseEvent('click', { bubbles: true }));
+    await new Promise(resolve => setTimeout(resolve));
+    expect(received(messages, 'ELEMENT_SELECTED')).toEqual([expect.objectContaining({ description: 'p' })]);
+    expect(window.eval('[inspecting, highlight]')).toEqual(['page', null]);
+  });
+});
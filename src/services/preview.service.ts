@@ -0,0 +1,1072 @@
+import { Injectable, inject } from '@angular/core';
+import { ProjectFile } from './project.service';
+import { AssetService } from './asset.service';
+import { CompiledFile, CompileError } from './compiler.service';
+import { replaceReferences } from '../utils/references.utils';
+import { ImportMap, linkModules, ModuleSource, SpecifierEdit, toModuleSpecifier, toUnlinkedPosition } from '../utils/modules.utils';
+import { basename, dirname, getParentFolders, resolvePath } from '../utils/path.utils';
+import { decodeSourceMap, findOriginalPosition, SourceMapLines } from '../utils/source-map.utils';
+import { mapStackTrace, SourceLocation } from '../utils/stack-trace.utils';
+import { getMockPattern, isAbsoluteUrl, MockRule, MOCKS_FILE, parseMocks } from '../utils/mocks.utils';
+import { annotateSourcePositions, SOURCE_POSITION_ATTRIBUTE } from '../utils/html-source.utils';
+import { PREVIEW_PROTOCOL, PREVIEW_PROTOCOL_VERSION } from '../utils/preview-protocol.utils';
+import { DEFAULT_PREVIEW_SECURITY, isIsolated, PreviewSecurity } from '../utils/preview-security.utils';
+
+const LINK_TAG = /<link\b[^>]*>/gi;
+const SCRIPT_TAG = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const CSS_IMPORT = /@import\s+(?:url\(\s*)?(["']?)([^"')\s;]+)\1\s*\)?([^;]*);/g;
+const JS_TYPES = ['', 'text/javascript', 'application/javascript', 'module'];
+const PROJECT_STYLE = /(<style data-preview-source="([^"]*)">)([\s\S]*?)<\/style>/g;
+
+export interface PreviewDocument {
+  html: string;
+  /** Problems found while linking the page, such as imports of missing modules. */
+  errors: CompileError[];
+  /** Contents of the stylesheets from project files, in document order. */
+  styles: PreviewStyle[];
+  /** The document without those contents: while it stays the same, only the styles need updating. */
+  shell: string;
+}
+
+export interface PreviewStyle {
+  /** Path of the project file the stylesheet comes from. */
+  source: string;
+  css: string;
+}
+
+export interface PreviewOptions {
+  /** Answer requests matching the rules in mocks.json with mock responses. */
+  mocks: boolean;
+  /** Pixel ratio the page sees when emulating a device; the real one if omitted. */
+  devicePixelRatio?: number;
+  /** Sandbox and Content-Security-Policy the page is shown with; the defaults if omitted. */
+  security?: PreviewSecurity;
+}
+
+/** A mock rule as the preview runtime matches it. */
+type RuntimeMock = Omit<MockRule, 'url'> & { pattern: string; absolute: boolean };
+
+/** Where the code loaded from a script URL comes from. */
+interface PreviewScript {
+  path: string;
+  /** Line and column of the file the code starts at, for scripts written inline in HTML. */
+  firstLine: number;
+  firstColumn: number;
+  /** Source map of compiled TypeScript, decoded on first use. */
+  sourceMap?: string;
+  mappings?: SourceMapLines;
+  /** Import specifiers rewritten by module linking, which moved the code after them. */
+  edits?: SpecifierEdit[];
+}
+
+/**
+ * Builds the srcdoc documents shown in the preview. Each HTML page gets the stylesheets it links
+ * to inlined (SCSS as compiled output), binary assets pointed at blob URLs and the preview runtime
+ * (console forwarding, in-preview navigation) injected before any of its own scripts. Scripts run
+ * from blob URLs, one per script, so positions in errors can be mapped back to project files.
+ * Module scripts are linked through a generated import map. A page isolated from the editor can't
+ * load the editor's blob URLs, so it gets its scripts and assets as data URLs instead.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PreviewService {
+  private assetService = inject(AssetService);
+
+  // URLs of scripts by kind, path, position and code, reused while a script doesn't change.
+  private scriptUrls = new Map<string, string>();
+  private scripts = new Map<string, PreviewScript>();
+  // Numbers data URLs, so scripts with the same code still get URLs of their own.
+  private nextDataUrlId = 1;
+  /** Whether the page being built runs isolated from the editor, and so gets data URLs. */
+  private isolated = false;
+
+  /** Lists the HTML pages of a project, shallowest first. */
+  getPages(files: ProjectFile[]): string[] {
+    const depth = (path: string) => getParentFolders(path).length;
+    return files
+      .filter(f => f.language === 'html')
+      .map(f => f.name)
+      .sort((a, b) => depth(a) - depth(b) || Number(basename(b) === 'index.html') - Number(basename(a) === 'index.html') || a.localeCompare(b));
+  }
+
+  /**
+   * Resolves a link clicked in the preview to a project page. Folder links such as
+   * `docs/` or `/` resolve to the folder's index.html. Returns null if there is no such page.
+   */
+  resolvePage(files: ProjectFile[], fromPage: string, href: string): string | null {
+    const pages = new Set(this.getPages(files));
+    const path = href.replace(/[?#].*$/, '');
+    const resolved = resolvePath(dirname(fromPage), path) ?? '';
+    const candidates = path.endsWith('/') || !resolved ? [`${resolved ? `${resolved}/` : ''}index.html`] : [resolved, `${resolved}/index.html`];
+    return candidates.find(candidate => pages.has(candidate)) ?? null;
+  }
+
+  /** For an isolated page, the assets must have been read with `AssetService.readDataUrls` beforehand. */
+  buildDocument(files: ProjectFile[], pagePath: string | null, compiled: ReadonlyMap<string, CompiledFile>, options: PreviewOptions = { mocks: false }): PreviewDocument {
+    const security = options.security ?? DEFAULT_PREVIEW_SECURITY;
+    this.isolated = isIsolated(security);
+    const page = files.find(f => f.name === pagePath && f.language === 'html');
+    if (!page) {
+      this.releaseScriptUrls(new Set());
+      const html = `<html><head><script>${this.getRuntimeScript()}<\/script></head><body><!-- Создайте HTML файл для предпросмотра --></body></html>`;
+      return { html, errors: [], styles: [], shell: html };
+    }
+
+    const byPath = new Map(files.map(f => [f.name, f]));
+    const errors: CompileError[] = [];
+    let importMap: ImportMap = {};
+    const inlineModules: ModuleSource[] = [];
+    const usedUrls = new Set<string>();
+    const scriptUrl = (script: PreviewScript, code: string) => {
+      const url = this.getScriptUrl(script, code);
+      usedUrls.add(url);
+      return url;
+    };
+    let linkedResources = 0;
+
+    // Tags are marked with their position in the page for the element picker.
+    let html = this.inlineAssetUrls({ ...page, content: annotateSourcePositions(page.content) }, files);
+    html = html.replace(LINK_TAG, tag => {
+      const href = this.getAttribute(tag, 'href');
+      if (!href || !/^stylesheet$/i.test(this.getAttribute(tag, 'rel') ?? '')) return tag;
+      const file = this.resolveFile(byPath, page.name, href, ['css', 'scss']);
+      if (!file) return tag;
+      linkedResources++;
+      return `<style data-preview-source="${file.name}">${this.escapeInline(this.getStylesheet(file, files, compiled), 'style')}</style>`;
+    });
+    html = html.replace(SCRIPT_TAG, (tag, attributes: string, content: string, offset: number, source: string) => {
+      const type = this.getAttribute(attributes, 'type')?.toLowerCase();
+      if (type === 'importmap') {
+        try {
+          importMap = JSON.parse(content);
+        } catch (e) {
+          errors.push({ path: page.name, line: this.getLine(source, offset), column: 1, message: `Некорректный import map: ${e instanceof Error ? e.message : e}` });
+        }
+        return ''; // Merged into the generated import map.
+      }
+
+      if (!JS_TYPES.includes(type ?? '')) return tag;
+      const src = this.getAttribute(attributes, 'src');
+      if (!src) {
+        const start = offset + tag.indexOf('>') + 1;
+        const firstLine = this.getLine(source, start);
+        const firstColumn = start - source.lastIndexOf('\n', start - 1);
+        if (type !== 'module') {
+          return `<script${attributes} src="${scriptUrl({ path: page.name, firstLine, firstColumn }, content)}" data-preview-source="${page.name}"><\/script>`;
+        }
+        // Placeholder for the linked code, filled in once all modules are known.
+        inlineModules.push({ path: page.name, code: content, firstLine, firstColumn });
+        return `<script${attributes} src="\u0000${inlineModules.length - 1}\u0000" data-preview-source="${page.name}"><\/script>`;
+      }
+      const file = this.resolveFile(byPath, page.name, src, ['js', 'ts']);
+      if (!file) return tag;
+      linkedResources++;
+      const rest = attributes.replace(/\s*\bsrc\s*=\s*(["'])[\s\S]*?\1|\s*\bsrc\s*=\s*[^\s>]+/i, '');
+      if (type === 'module') {
+        inlineModules.push({ path: page.name, code: `import '/${file.name}';` });
+        return `<script${rest} src="\u0000${inlineModules.length - 1}\u0000" data-preview-source="${file.name}"><\/script>`;
+      }
+      const script = { path: file.name, firstLine: 1, firstColumn: 1, sourceMap: compiled.get(file.name)?.sourceMap };
+      const code = file.language === 'ts' ? compiled.get(file.name)?.code ?? '' : file.content;
+      return `<script${rest} src="${scriptUrl(script, code)}" data-preview-source="${file.name}"><\/script>`;
+    });
+
+    const sources = new Map<string, string>();
+    for (const file of files) {
+      if (file.language === 'js') sources.set(file.name, file.content);
+      if (file.language === 'ts') sources.set(file.name, compiled.get(file.name)?.code ?? '');
+    }
+    const linked = linkModules(inlineModules, sources, importMap, page.name);
+    errors.push(...linked.errors);
+    html = html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => {
+      const entry = inlineModules[Number(index)];
+      const { code, edits } = linked.entries[Number(index)];
+      return scriptUrl({ path: entry.path, firstLine: entry.firstLine ?? 1, firstColumn: entry.firstColumn ?? 1, edits }, code);
+    });
+
+    const moduleUrls = new Map<string, string>();
+    for (const [path, { code, edits }] of linked.modules) {
+      moduleUrls.set(path, scriptUrl({ path, firstLine: 1, firstColumn: 1, sourceMap: compiled.get(path)?.sourceMap, edits }, code));
+    }
+
+    // Pages that link nothing themselves, like the original single-page template, get the main stylesheet and script.
+    const mocks = options.mocks ? this.readMocks(files, errors) : [];
+    let head = `<script>${this.escapeInline(this.getRuntimeScript(mocks, options.devicePixelRatio), 'script')}<\/script>`;
+    // A policy set by <meta> only covers what comes after it, so the runtime is left out of it.
+    if (security.csp.trim()) {
+      head += `<meta http-equiv="Content-Security-Policy" content="${this.escapeAttribute(security.csp.trim())}">`;
+    }
+    if (inlineModules.length > 0 || importMap.imports || importMap.scopes) {
+      head += `<script type="importmap">${this.escapeInline(JSON.stringify(this.buildImportMap(importMap, moduleUrls)), 'script')}<\/script>`;
+    }
+    let tail = '';
+    if (linkedResources === 0) {
+      const cssFile = this.findPrimaryFile(files, 'css');
+      const jsFile = this.findPrimaryFile(files, 'js');
+      if (cssFile) head += `<style data-preview-source="${cssFile.name}">${this.escapeInline(this.bundleStylesheet(cssFile, files, new Set()), 'style')}</style>`;
+      if (jsFile) tail = `<script src="${scriptUrl({ path: jsFile.name, firstLine: 1, firstColumn: 1 }, jsFile.content)}" data-preview-source="${jsFile.name}"><\/script>`;
+    }
+    this.releaseScriptUrls(usedUrls);
+    html = this.injectHead(html, head) + tail;
+    const styles: PreviewStyle[] = [];
+    const shell = html.replace(PROJECT_STYLE, (_, openTag: string, source: string, css: string) => {
+      styles.push({ source, css });
+      return `${openTag}</style>`;
+    });
+    return { html, errors, styles, shell };
+  }
+
+  /**
+   * Markup of the detached preview window. The preview runs in an iframe inside it, so it's built
+   * the same way as the docked one, and the window relays messages between it and the editor.
+   */
+  getDetachedWindowHtml(): string {
+    return `<!DOCTYPE html><html><head><meta charset="utf-8">
+<style>html, body { margin: 0; height: 100%; overflow: hidden; } iframe { display: block; width: 100%; height: 100%; border: none; background: #fff; }</style>
+</head><body><iframe title="Preview" sandbox="${DEFAULT_PREVIEW_SECURITY.sandbox.join(' ')}"></iframe><script>
+  // The window shares the editor's origin; the page in the frame usually has an opaque one.
+  const frame = document.querySelector('iframe');
+  window.addEventListener('message', event => {
+    if (!window.opener) return;
+    if (event.source === frame.contentWindow) window.opener.postMessage(event.data, location.origin);
+    else if (event.source === window.opener && event.origin === location.origin) frame.contentWindow.postMessage(event.data, '*');
+  });
+  window.addEventListener('pagehide', () => window.opener && window.opener.postMessage(
+    { protocol: ${JSON.stringify(PREVIEW_PROTOCOL)}, version: ${PREVIEW_PROTOCOL_VERSION}, type: 'PREVIEW_WINDOW_CLOSED' }, location.origin));
+<\/script></body></html>`;
+  }
+
+  /** Maps a position in a script run by the preview to the project file it comes from. */
+  mapLocation(url: string, line: number, column: number): SourceLocation | null {
+    const script = this.scripts.get(url);
+    if (!script) return null;
+    if (script.edits?.length) {
+      ({ line, column } = toUnlinkedPosition(script.edits, line, column));
+    }
+    if (script.sourceMap) {
+      script.mappings ??= decodeSourceMap(script.sourceMap);
+      const original = findOriginalPosition(script.mappings, line, column);
+      return original && { path: script.path, ...original };
+    }
+    return {
+      path: script.path,
+      line: line + script.firstLine - 1,
+      column: line === 1 ? column + script.firstColumn - 1 : column,
+    };
+  }
+
+  /** Rewrites the script URLs in a stack trace to project file positions. */
+  mapStackTrace(text: string): string {
+    if (!text.includes('blob:') && !text.includes('data:')) return text;
+    return mapStackTrace(text, [...this.scripts.keys()], (url, line, column) => this.mapLocation(url, line, column));
+  }
+
+  private readMocks(files: ProjectFile[], errors: CompileError[]): RuntimeMock[] {
+    const file = files.find(f => f.name === MOCKS_FILE);
+    if (!file) return [];
+    const { rules, error } = parseMocks(file.content);
+    if (error) {
+      errors.push({ path: file.name, line: 1, column: 1, message: `Моки не загружены: ${error}` });
+    }
+    return rules.map(({ url, ...rule }) => ({ ...rule, pattern: getMockPattern({ url, ...rule }), absolute: isAbsoluteUrl(url) }));
+  }
+
+  /** Keeps the page's own mappings to URLs and maps every linked project module to its blob URL. */
+  private buildImportMap(importMap: ImportMap, moduleUrls: Map<string, string>): ImportMap {
+    const isUrl = (value: string) => /^[a-z][a-z0-9+.-]*:/i.test(value) || value.startsWith('//');
+    const imports = Object.fromEntries(Object.entries(importMap.imports ?? {}).filter(([, value]) => isUrl(value)));
+    for (const [path, url] of moduleUrls) {
+      imports[toModuleSpecifier(path)] = url;
+    }
+    return importMap.scopes ? { imports, scopes: importMap.scopes } : { imports };
+  }
+
+  private getScriptUrl(script: PreviewScript, code: string): string {
+    // Different imports can link to the same code, so where they were is part of the key.
+    const edits = script.edits?.map(e => `${e.line}:${e.start}:${e.shift}`).join(',') ?? '';
+    const key = `${this.isolated ? 'data' : 'blob'}:${script.path}:${script.firstLine}:${script.firstColumn}:${edits}\n${code}`;
+    let url = this.scriptUrls.get(key);
+    if (!url) {
+      url = this.isolated
+        ? `data:text/javascript;charset=utf-8,${encodeURIComponent(`${code}\n// ${this.nextDataUrlId++}`)}`
+        : URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+      this.scriptUrls.set(key, url);
+    }
+    // The source map may change without the code changing, e.g. after editing a type annotation.
+    const known = this.scripts.get(url);
+    if (!known || known.sourceMap !== script.sourceMap) {
+      this.scripts.set(url, script);
+    }
+    return url;
+  }
+
+  private releaseScriptUrls(used: Set<string>) {
+    for (const [key, url] of this.scriptUrls) {
+      if (!used.has(url)) {
+        if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+        this.scriptUrls.delete(key);
+        this.scripts.delete(url);
+      }
+    }
+  }
+
+  private getStylesheet(file: ProjectFile, files: ProjectFile[], compiled: ReadonlyMap<string, CompiledFile>): string {
+    if (file.language !== 'scss') return this.bundleStylesheet(file, files, new Set());
+    // Sass has already inlined the imports; asset URLs are still relative to the SCSS file.
+    return this.inlineAssetUrls({ ...file, content: compiled.get(file.name)?.code ?? '', language: 'css' }, files);
+  }
+
+  /** Inlines local `@import`s recursively and points asset URLs at blob or data URLs. */
+  private bundleStylesheet(file: ProjectFile, files: ProjectFile[], visited: Set<string>): string {
+    visited.add(file.name);
+    const byPath = new Map(files.map(f => [f.name, f]));
+    return this.inlineAssetUrls(file, files).replace(CSS_IMPORT, (statement, _quote, specifier: string, media: string) => {
+      const imported = this.resolveFile(byPath, file.name, specifier, ['css']);
+      if (!imported) return statement;
+      if (visited.has(imported.name)) return '';
+      const css = this.bundleStylesheet(imported, files, visited);
+      return media.trim() ? `@media ${media.trim()} {\n${css}\n}` : css;
+    });
+  }
+
+  private inlineAssetUrls(file: ProjectFile, files: ProjectFile[]): string {
+    const assets = new Map(files.filter(f => f.blob).map(f => [f.name, f.blob!]));
+    if (assets.size === 0) return file.content;
+    return replaceReferences(file, new Set(assets.keys()), target => {
+      const blob = assets.get(target);
+      if (!blob) return null;
+      return this.isolated ? this.assetService.getDataUrl(blob) || null : this.assetService.getUrl(blob);
+    });
+  }
+
+  private resolveFile(byPath: Map<string, ProjectFile>, fromPath: string, reference: string, languages: string[]): ProjectFile | null {
+    if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(reference)) return null;
+    const path = resolvePath(dirname(fromPath), reference.replace(/[?#].*$/, ''));
+    const file = path ? byPath.get(path) : undefined;
+    return file && languages.includes(file.language) ? file : null;
+  }
+
+  /** Picks the file of a language closest to the project root. */
+  private findPrimaryFile(files: ProjectFile[], language: string): ProjectFile | undefined {
+    const depth = (file: ProjectFile) => getParentFolders(file.name).length;
+    return files.filter(f => f.language === language).sort((a, b) => depth(a) - depth(b))[0];
+  }
+
+  private getAttribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? match[1] ?? match[2] ?? match[3] : null;
+  }
+
+  private getLine(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length;
+  }
+
+  private escapeInline(content: string, tag: 'script' | 'style'): string {
+    return content.replace(new RegExp(`</${tag}`, 'gi'), `<\\/${tag}`);
+  }
+
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  }
+
+  /** Inserts markup at the start of <head>, creating the head if the page is only a fragment. */
+  private injectHead(html: string, markup: string): string {
+    const head = html.match(/<head\b[^>]*>/i);
+    if (head) return html.replace(head[0], `${head[0]}${markup}`);
+    const root = html.match(/<html\b[^>]*>/i);
+    if (root) return html.replace(root[0], `${root[0]}<head>${markup}</head>`);
+    return `${markup}${html}`;
+  }
+
+  /** `mocks` are the mock rules to answer requests with, see mocks.utils.ts. */
+  private getRuntimeScript(mocks: RuntimeMock[] = [], devicePixelRatio?: number): string {
+    return `
+      // Everything is scoped to this function, so the page's own scripts can use any names at top level.
+      (() => {
+        const originalConsole = { ...window.console };
+
+        // Messages to and from the editor are enveloped and checked, see preview-protocol.utils.ts.
+        // The page usually has an opaque origin, but as an srcdoc document it has the editor's base URL.
+        const PROTOCOL = ${JSON.stringify(PREVIEW_PROTOCOL)};
+        const PROTOCOL_VERSION = ${PREVIEW_PROTOCOL_VERSION};
+        const EDITOR_ORIGIN = (() => {
+          try {
+            const origin = new URL(document.baseURI).origin;
+            return origin === 'null' ? '*' : origin;
+          } catch (e) {
+            return '*';
+          }
+        })();
+        const postToEditor = (type, payload) => {
+          window.parent.postMessage({ protocol: PROTOCOL, version: PROTOCOL_VERSION, type, payload }, EDITOR_ORIGIN);
+        };
+
+        // An isolated page isn't allowed web storage, so it gets storage kept in memory until it reloads.
+        for (const name of ['localStorage', 'sessionStorage']) {
+          try {
+            window[name].length;
+          } catch (e) {
+            const items = new Map();
+            const storage = {
+              get length() { return items.size; },
+              key: index => [...items.keys()][index] ?? null,
+              getItem: key => items.has(String(key)) ? items.get(String(key)) : null,
+              setItem: (key, value) => { items.set(String(key), String(value)); },
+              removeItem: key => { items.delete(String(key)); },
+              clear: () => items.clear(),
+            };
+            Object.defineProperty(window, name, { value: storage, configurable: true });
+          }
+        }
+
+        // Values are sent to the editor as RemoteValue (see remote-value.utils.ts): primitives by value,
+        // objects as handles into this registry so cycles and deep properties can be fetched lazily.
+        const objectIds = new WeakMap();
+        let objects = new Map();
+        let nextObjectId = 1;
+        const PREVIEW_ENTRIES = 5;
+        const getHandle = object => {
+          let id = objectIds.get(object);
+          if (!id || !objects.has(id)) {
+            id = nextObjectId++;
+            objectIds.set(object, id);
+            objects.set(id, object);
+          }
+          return id;
+        };
+        const getClassName = object => {
+          try {
+            return (object.constructor && object.constructor.name) || 'Object';
+          } catch (e) {
+            return 'Object';
+          }
+        };
+        const getSubtype = object => {
+          if (Array.isArray(object) || ArrayBuffer.isView(object)) return 'array';
+          if (object instanceof Map) return 'map';
+          if (object instanceof Set) return 'set';
+          if (object instanceof Error) return 'error';
+          if (object instanceof Date) return 'date';
+          if (object instanceof RegExp) return 'regexp';
+          if (object instanceof Node) return 'node';
+          if (object instanceof Promise) return 'promise';
+          return null;
+        };
+        const describeNode = node => {
+          if (node.nodeType === Node.ELEMENT_NODE) {
+            const id = node.id ? '#' + node.id : '';
+            const classes = typeof node.className === 'string' && node.className.trim() ? '.' + node.className.trim().split(/\\s+/).join('.') : '';
+            return '<' + node.localName + id + classes + '>';
+          }
+          if (node.nodeType === Node.TEXT_NODE) return '#text ' + JSON.stringify(node.textContent.slice(0, 50));
+          if (node.nodeType === Node.COMMENT_NODE) return '<!--' + node.textContent.slice(0, 50) + '-->';
+          return node.nodeName;
+        };
+        const describe = (object, subtype) => {
+          switch (subtype) {
+            case 'array': return getClassName(object) + '(' + object.length + ')';
+            case 'map': case 'set': return getClassName(object) + '(' + object.size + ')';
+            case 'error': return object.stack || String(object);
+            case 'date': return isNaN(object) ? 'Invalid Date' : object.toString();
+            case 'regexp': return String(object);
+            case 'node': return describeNode(object);
+            default: return getClassName(object);
+          }
+        };
+        const readProperty = (object, name) => {
+          try {
+            return serialize(object[name], false);
+          } catch (e) {
+            return { type: 'string', value: '[Исключение: ' + (e && e.message || e) + ']' };
+          }
+        };
+        // Lists an object's entries: indices, Map/Set entries, child nodes or own properties.
+        const getEntries = (object, limit) => {
+          const subtype = getSubtype(object);
+          const entries = [];
+          if (subtype === 'map') {
+            let index = 0;
+            for (const [key, value] of object) {
+              if (entries.length >= limit) break;
+              entries.push({ name: String(index++), key: serialize(key, false), value: serialize(value, false) });
+            }
+            return entries;
+          }
+          if (subtype === 'set') {
+            let index = 0;
+            for (const value of object) {
+              if (entries.length >= limit) break;
+              entries.push({ name: String(index++), value: serialize(value, false) });
+            }
+            return entries;
+          }
+          if (subtype === 'node') {
+            for (const child of Array.from(object.childNodes).slice(0, limit)) {
+              entries.push({ name: String(entries.length), value: serialize(child, false) });
+            }
+            return entries;
+          }
+          const names = typeof object === 'function' || subtype === 'error' ? Object.getOwnPropertyNames(object) : Object.keys(object);
+          for (const name of names.slice(0, limit)) {
+            entries.push({ name, value: readProperty(object, name) });
+          }
+          return entries;
+        };
+        const getEntryCount = object => {
+          const subtype = getSubtype(object);
+          if (subtype === 'map' || subtype === 'set') return object.size;
+          if (subtype === 'node') return object.childNodes.length;
+          return Object.keys(object).length;
+        };
+        const describeFunction = fn => {
+          const source = Function.prototype.toString.call(fn);
+          const kind = /^class\\b/.test(source) ? 'class ' : /^async\\b/.test(source) ? 'async ƒ ' : 'ƒ ';
+          return kind + (fn.name || '(анонимная)') + (kind === 'class ' ? '' : '()');
+        };
+        const serialize = (value, withPreview = true) => {
+          switch (typeof value) {
+            case 'undefined': return { type: 'undefined' };
+            case 'boolean': return { type: 'boolean', value };
+            case 'string': return { type: 'string', value };
+            case 'number': return { type: 'number', value, description: Object.is(value, -0) ? '-0' : String(value) };
+            case 'bigint': return { type: 'bigint', value: value.toString() };
+            case 'symbol': return { type: 'symbol', value: value.toString() };
+            case 'function': return { type: 'function', id: getHandle(value), description: describeFunction(value) };
+          }
+          if (value === null) return { type: 'null' };
+          const subtype = getSubtype(value);
+          const result = { type: 'object', id: getHandle(value), subtype, className: getClassName(value), description: describe(value, subtype) };
+          if (withPreview && subtype !== 'node' && subtype !== 'error') {
+            try {
+              result.preview = { entries: getEntries(value, PREVIEW_ENTRIES), overflow: getEntryCount(value) > PREVIEW_ENTRIES };
+            } catch (e) {
+              // Exotic objects (e.g. revoked proxies) are shown by description only.
+            }
+          }
+          return result;
+        };
+        const getProperties = id => {
+          const object = objects.get(id);
+          if (object === undefined) return [];
+          const properties = getEntries(object, Infinity);
+          const subtype = getSubtype(object);
+          if (subtype === 'array') properties.push({ name: 'length', value: serialize(object.length) });
+          const prototype = Object.getPrototypeOf(object);
+          if (prototype !== null && subtype !== 'node') properties.push({ name: '[[Prototype]]', value: serialize(prototype, false) });
+          return properties;
+        };
+        const postLog = (type, args, location) => {
+          try {
+            postToEditor('CONSOLE_LOG', { type, data: args.map(arg => serialize(arg)), location, timestamp: new Date().toISOString() });
+          } catch (e) {
+            originalConsole.error('Error posting log to parent:', e);
+          }
+        };
+
+        const intercept = (name, handler) => {
+          window.console[name] = (...args) => {
+            originalConsole[name](...args);
+            handler(...args);
+          };
+        };
+        for (const level of ['log', 'warn', 'error', 'info', 'debug']) {
+          intercept(level, (...args) => postLog(level, args));
+        }
+        intercept('dir', value => postLog('log', [value]));
+        intercept('trace', (...args) => {
+          const stack = (new Error().stack || '').split('\\n').slice(3).join('\\n');
+          postLog('log', [...(args.length ? args : ['console.trace']), '\\n' + stack]);
+        });
+        intercept('assert', (condition, ...args) => {
+          if (!condition) postLog('error', ['Assertion failed' + (args.length ? ':' : ''), ...args]);
+        });
+        intercept('group', (...args) => postLog('group', args.length ? args : ['console.group']));
+        intercept('groupCollapsed', (...args) => postLog('groupCollapsed', args.length ? args : ['console.groupCollapsed']));
+        intercept('groupEnd', () => postLog('groupEnd', []));
+        intercept('clear', () => postToEditor('CONSOLE_CLEAR'));
+
+        const counters = new Map();
+        intercept('count', (label = 'default') => {
+          const count = (counters.get(String(label)) || 0) + 1;
+          counters.set(String(label), count);
+          postLog('log', [label + ': ' + count]);
+        });
+        intercept('countReset', (label = 'default') => {
+          if (!counters.delete(String(label))) postLog('warn', ['Счётчик "' + label + '" не существует']);
+        });
+
+        const timers = new Map();
+        const formatElapsed = label => label + ': ' + (performance.now() - timers.get(label)).toFixed(3) + ' ms';
+        intercept('time', (label = 'default') => {
+          if (timers.has(String(label))) {
+            postLog('warn', ['Таймер "' + label + '" уже существует']);
+            return;
+          }
+          timers.set(String(label), performance.now());
+        });
+        intercept('timeLog', (label = 'default', ...args) => {
+          if (!timers.has(String(label))) {
+            postLog('warn', ['Таймер "' + label + '" не существует']);
+            return;
+          }
+          postLog('log', [formatElapsed(String(label)), ...args]);
+        });
+        intercept('timeEnd', (label = 'default') => {
+          if (!timers.has(String(label))) {
+            postLog('warn', ['Таймер "' + label + '" не существует']);
+            return;
+          }
+          postLog('log', [formatElapsed(String(label))]);
+          timers.delete(String(label));
+        });
+
+        // console.table sends the rows with its cells already split into columns (see ConsoleTable).
+        const TABLE_ROW_LIMIT = 1000;
+        intercept('table', (data, properties) => {
+          if (data === null || typeof data !== 'object') {
+            postLog('log', [data]);
+            return;
+          }
+          const entries = data instanceof Map ? [...data].map(([key, value]) => [String(key), value])
+            : data instanceof Set ? [...data].map((value, index) => [String(index), value])
+            : Object.keys(data).map(key => [key, data[key]]);
+          const columns = Array.isArray(properties) ? properties.map(String) : [];
+          const autoColumns = !Array.isArray(properties);
+          let hasValues = false;
+          const rows = entries.slice(0, TABLE_ROW_LIMIT).map(([index, value]) => {
+            const cells = {};
+            if (value !== null && typeof value === 'object') {
+              for (const key of Object.keys(value)) {
+                if (autoColumns && !columns.includes(key)) columns.push(key);
+                if (columns.includes(key)) cells[key] = serialize(value[key], false);
+              }
+            } else {
+              hasValues = true;
+              cells[''] = serialize(value, false);
+            }
+            return { index, cells };
+          });
+          if (hasValues) columns.push('');
+          try {
+            postToEditor('CONSOLE_LOG', { type: 'table', data: [serialize(data)], table: { columns, rows }, timestamp: new Date().toISOString() });
+          } catch (e) {
+            originalConsole.error('Error posting log to parent:', e);
+          }
+        });
+
+        // Positions are script URLs; the editor maps them back to project files.
+        window.addEventListener('error', event => {
+          const location = event.filename ? { url: event.filename, line: event.lineno, column: event.colno } : undefined;
+          postLog('error', event.error instanceof Error ? ['Uncaught', event.error] : [event.message], location);
+        });
+        // Failed module loads fire a non-bubbling error event on the script element.
+        window.addEventListener('error', event => {
+          const script = event.target;
+          if (!(script instanceof HTMLScriptElement)) return;
+          const name = script.dataset.previewSource || 'встроенного модуля';
+          postLog('error', ['Не удалось загрузить модули, импортированные из ' + name + '.']);
+        }, true);
+        window.addEventListener('unhandledrejection', event => {
+          postLog('error', ['Unhandled promise rejection:', event.reason]);
+        });
+
+        // Console REPL: expressions typed in the editor's console run in the page's global scope.
+        const evaluate = code => {
+          // Like browser consoles, treat a leading "{" as an object literal rather than a block.
+          if (/^\\s*\\{/.test(code) && /\\}\\s*$/.test(code)) {
+            try {
+              return (0, eval)('(' + code + ')');
+            } catch (e) {
+              if (!(e instanceof SyntaxError)) throw e;
+            }
+          }
+          return (0, eval)(code);
+        };
+        const complete = expression => {
+          const dot = expression.lastIndexOf('.');
+          const prefix = expression.slice(dot + 1);
+          let target = window;
+          if (dot !== -1) {
+            try {
+              target = expression.slice(0, dot).split('.').reduce((object, key) => object[key], window);
+            } catch (e) {
+              return [];
+            }
+          }
+          const names = new Set();
+          for (let object = target; object !== null && object !== undefined; object = Object.getPrototypeOf(object)) {
+            for (const name of Object.getOwnPropertyNames(object)) {
+              if (name.startsWith(prefix) && /^[A-Za-z_$][\\w$]*$/.test(name)) names.add(name);
+            }
+          }
+          return [...names].sort().slice(0, 50);
+        };
+        window.addEventListener('message', event => {
+          if (event.source !== window.parent || EDITOR_ORIGIN !== '*' && event.origin !== EDITOR_ORIGIN) return;
+          const data = event.data;
+          if (!data || data.protocol !== PROTOCOL || data.version !== PROTOCOL_VERSION) return;
+          const { type, payload } = data;
+          if (type === 'EVAL') {
+            let result;
+            try {
+              result = { ok: true, value: serialize(evaluate(payload.code)) };
+            } catch (e) {
+              result = { ok: false, value: serialize(e) };
+            }
+            postToEditor('EVAL_RESULT', { id: payload.id, ...result });
+          } else if (type === 'GET_PROPERTIES') {
+            let properties;
+            try {
+              properties = getProperties(payload.objectId);
+            } catch (e) {
+              properties = [{ name: '[[Ошибка]]', value: serialize(e, false) }];
+            }
+            postToEditor('PROPERTIES', { id: payload.id, properties });
+          } else if (type === 'RELEASE_OBJECTS') {
+            objects = new Map();
+          } else if (type === 'COMPLETE') {
+            postToEditor('COMPLETIONS', { id: payload.id, items: complete(payload.expression) });
+          } else if (type === 'UPDATE_STYLES') {
+            // Stylesheets of edited project files are swapped in place, so the page keeps its state.
+            const styles = payload.styles.slice();
+            for (const style of document.querySelectorAll('style[data-preview-source]')) {
+              const index = styles.findIndex(entry => entry.source === style.dataset.previewSource);
+              if (index === -1) continue;
+              const [entry] = styles.splice(index, 1);
+              if (style.textContent !== entry.css) style.textContent = entry.css;
+            }
+            rewriteStyleSheets();
+          } else if (type === 'SET_INSPECT') {
+            setInspecting(payload.enabled);
+          }
+        });
+
+        // Network panel: fetch and XMLHttpRequest are reported to the editor, and answered from
+        // the project's mocks when a rule matches.
+        const mockRules = ${JSON.stringify(mocks)}.map(rule => ({ ...rule, pattern: new RegExp(rule.pattern) }));
+        const BODY_LIMIT = 100000;
+        const requestPrefix = Math.random().toString(36).slice(2, 8);
+        let nextRequestId = 1;
+        const resolveUrl = url => {
+          try {
+            return new URL(url, document.baseURI).href;
+          } catch (e) {
+            return String(url);
+          }
+        };
+        const findMock = (method, url) => {
+          let parsed;
+          try {
+            parsed = new URL(url);
+          } catch (e) {
+            return null;
+          }
+          return mockRules.find(rule => (!rule.method || rule.method === method)
+            && rule.pattern.test(rule.absolute ? parsed.href.replace(/#.*$/, '') : parsed.pathname + parsed.search)) || null;
+        };
+        const describeBody = body => {
+          if (body === undefined || body === null) return null;
+          if (typeof body === 'string') return body.slice(0, BODY_LIMIT);
+          if (body instanceof URLSearchParams) return body.toString();
+          if (body instanceof FormData) {
+            return [...body].map(([name, value]) => name + '=' + (typeof value === 'string' ? value : '[файл ' + value.name + ']')).join('&');
+          }
+          if (body instanceof Blob) return '[Blob, ' + body.size + ' байт]';
+          if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return '[двоичные данные, ' + body.byteLength + ' байт]';
+          return '[' + (body.constructor && body.constructor.name || typeof body) + ']';
+        };
+        const isTextType = type => !type || /^text\\/|json|xml|javascript|x-www-form-urlencoded/i.test(type);
+        const parseHeaderLines = text => {
+          const headers = {};
+          for (const line of text.trim().split(/[\\r\\n]+/)) {
+            const index = line.indexOf(':');
+            if (index > 0) headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+          }
+          return headers;
+        };
+        const postNetwork = (type, payload) => {
+          try {
+            postToEditor(type, payload);
+          } catch (e) {
+            originalConsole.error('Error posting request to parent:', e);
+          }
+        };
+        const startRequest = (kind, method, url, headers, body, mock) => {
+          const id = requestPrefix + '-' + nextRequestId++;
+          postNetwork('NETWORK_REQUEST', { id, kind, method, url, requestHeaders: headers, requestBody: describeBody(body), mocked: !!mock, startTime: Date.now() });
+          const start = performance.now();
+          return response => postNetwork('NETWORK_RESPONSE', { id, duration: performance.now() - start, ...response });
+        };
+
+        const originalFetch = window.fetch;
+        window.fetch = function (input, init) {
+          const request = input instanceof Request ? input : null;
+          const options = init || {};
+          const method = String(options.method || (request ? request.method : 'GET')).toUpperCase();
+          const url = resolveUrl(request ? request.url : input);
+          const headers = Object.fromEntries(new Headers(options.headers || (request ? request.headers : undefined)));
+          const mock = findMock(method, url);
+          const finish = startRequest('fetch', method, url, headers, options.body, mock);
+
+          const pending = mock
+            ? new Promise(resolve => setTimeout(() => resolve(new Response(mock.status === 204 || mock.status === 205 || mock.status === 304 ? null : mock.body, { status: mock.status, headers: mock.headers })), mock.delay))
+            : originalFetch.apply(this, arguments);
+          pending.then(response => {
+            const responseHeaders = Object.fromEntries(response.headers);
+            const contentType = response.headers.get('content-type');
+            const done = responseBody => finish({ status: response.status, statusText: response.statusText, responseHeaders, responseBody });
+            if (response.type === 'opaque') {
+              done(null);
+            } else if (isTextType(contentType)) {
+              response.clone().text().then(text => done(text.slice(0, BODY_LIMIT)), () => done(null));
+            } else {
+              response.clone().blob().then(blob => done('[двоичные данные, ' + blob.size + ' байт]'), () => done(null));
+            }
+          }, error => finish({ error: error && error.message || String(error) }));
+          return pending;
+        };
+
+        const xhrState = new WeakMap();
+        const originalOpen = XMLHttpRequest.prototype.open;
+        const originalSend = XMLHttpRequest.prototype.send;
+        const originalSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
+        XMLHttpRequest.prototype.open = function (method, url) {
+          xhrState.set(this, { method: String(method).toUpperCase(), url: resolveUrl(url), headers: {} });
+          return originalOpen.apply(this, arguments);
+        };
+        XMLHttpRequest.prototype.setRequestHeader = function (name, value) {
+          const state = xhrState.get(this);
+          if (state) state.headers[String(name).toLowerCase()] = String(value);
+          return originalSetRequestHeader.apply(this, arguments);
+        };
+        XMLHttpRequest.prototype.send = function (body) {
+          const state = xhrState.get(this);
+          if (!state) return originalSend.apply(this, arguments);
+          const xhr = this;
+          const mock = findMock(state.method, state.url);
+          const finish = startRequest('xhr', state.method, state.url, state.headers, body, mock);
+          if (mock) {
+            respondWithMock(xhr, state.url, mock, finish);
+            return;
+          }
+          xhr.addEventListener('loadend', () => {
+            if (xhr.status === 0) {
+              finish({ error: 'Сетевая ошибка или запрос прерван' });
+              return;
+            }
+            const responseHeaders = parseHeaderLines(xhr.getAllResponseHeaders());
+            let responseBody = null;
+            if (xhr.responseType === '' || xhr.responseType === 'text') {
+              responseBody = xhr.responseText.slice(0, BODY_LIMIT);
+            } else if (xhr.responseType === 'json') {
+              responseBody = JSON.stringify(xhr.response).slice(0, BODY_LIMIT);
+            } else if (xhr.response) {
+              responseBody = '[' + xhr.responseType + ']';
+            }
+            finish({ status: xhr.status, statusText: xhr.statusText, responseHeaders, responseBody });
+          });
+          return originalSend.apply(this, arguments);
+        };
+        // Fakes a finished request on the XHR object itself, since no real request is made.
+        const respondWithMock = (xhr, url, mock, finish) => {
+          setTimeout(() => {
+            const define = (name, value) => Object.defineProperty(xhr, name, { configurable: true, value });
+            let response = mock.body;
+            if (xhr.responseType === 'json') {
+              try {
+                response = JSON.parse(mock.body);
+              } catch (e) {
+                response = null;
+              }
+            } else if (xhr.responseType === 'blob') {
+              response = new Blob([mock.body], { type: mock.headers['content-type'] || '' });
+            } else if (xhr.responseType === 'arraybuffer') {
+              response = new TextEncoder().encode(mock.body).buffer;
+            }
+            define('readyState', 4);
+            define('status', mock.status);
+            define('statusText', '');
+            define('responseURL', url);
+            define('response', response);
+            if (xhr.responseType === '' || xhr.responseType === 'text') define('responseText', mock.body);
+            define('getAllResponseHeaders', () => Object.entries(mock.headers).map(([name, value]) => name + ': ' + value).join('\\r\\n'));
+            define('getResponseHeader', name => mock.headers[String(name).toLowerCase()] ?? null);
+            finish({ status: mock.status, statusText: '', responseHeaders: mock.headers, responseBody: mock.body.slice(0, BODY_LIMIT) });
+            xhr.dispatchEvent(new Event('readystatechange'));
+            xhr.dispatchEvent(new ProgressEvent('load'));
+            xhr.dispatchEvent(new ProgressEvent('loadend'));
+          }, mock.delay);
+        };
+
+        // Device emulation: the viewport size is the frame's real size, but the pixel ratio is faked
+        // for window.devicePixelRatio, matchMedia and the resolution queries of the page's stylesheets.
+        const emulatedPixelRatio = ${JSON.stringify(devicePixelRatio ?? null)};
+        const RESOLUTION_FEATURE = /\\(\\s*(-webkit-)?(min-|max-)?(resolution|device-pixel-ratio)\\s*:\\s*([\\d.]+)(dppx|x|dpi|dpcm)?\\s*\\)/gi;
+        const emulateResolution = query => String(query).replace(RESOLUTION_FEATURE, (feature, prefix, range, name, value, unit) => {
+          const unitLower = (unit || '').toLowerCase();
+          const ratio = unitLower === 'dpi' ? value / 96 : unitLower === 'dpcm' ? value * 2.54 / 96 : Number(value);
+          const matches = range === 'min-' ? emulatedPixelRatio >= ratio : range === 'max-' ? emulatedPixelRatio <= ratio : emulatedPixelRatio === ratio;
+          return matches ? '(min-width: 0px)' : '((max-width: 0px) and (min-width: 1px))';
+        });
+        const rewriteRules = rules => {
+          for (const rule of rules) {
+            if (rule instanceof CSSMediaRule) {
+              const mediaText = emulateResolution(rule.media.mediaText);
+              if (mediaText !== rule.media.mediaText) rule.media.mediaText = mediaText;
+            }
+            if (rule.cssRules) rewriteRules(rule.cssRules);
+          }
+        };
+        const rewriteStyleSheets = () => {
+          if (!emulatedPixelRatio) return;
+          for (const sheet of document.styleSheets) {
+            try {
+              rewriteRules(sheet.cssRules);
+            } catch (e) {
+              // Rules of cross-origin stylesheets can't be read.
+            }
+          }
+        };
+        if (emulatedPixelRatio) {
+          Object.defineProperty(window, 'devicePixelRatio', { get: () => emulatedPixelRatio, configurable: true });
+          const originalMatchMedia = window.matchMedia.bind(window);
+          window.matchMedia = query => originalMatchMedia(emulateResolution(query));
+          document.addEventListener('DOMContentLoaded', rewriteStyleSheets);
+          window.addEventListener('load', rewriteStyleSheets);
+        }
+
+        // Element picker: while inspecting, the element under the pointer is outlined, and clicking it
+        // reports the element to the editor with its position in the page, computed styles and CSS rules.
+        const SOURCE_POSITION = '${SOURCE_POSITION_ATTRIBUTE}';
+        const INSPECTED_STYLES = ['display', 'position', 'box-sizing', 'width', 'height', 'margin', 'padding', 'border', 'color',
+          'background-color', 'font-family', 'font-size', 'font-weight', 'line-height', 'text-align', 'flex-direction',
+          'justify-content', 'align-items', 'gap', 'grid-template-columns', 'overflow', 'z-index', 'opacity'];
+        let inspecting = false;
+        let hovered = null;
+        let highlight = null;
+        const describeElement = element => {
+          let description = element.tagName.toLowerCase();
+          if (element.id) description += '#' + element.id;
+          for (const name of [...element.classList].slice(0, 3)) description += '.' + name;
+          return description;
+        };
+        const showHighlight = element => {
+          if (!highlight) {
+            highlight = document.createElement('div');
+            highlight.style.cssText = 'position:fixed;z-index:2147483647;pointer-events:none;box-sizing:border-box;'
+              + 'background:rgba(56,189,248,0.2);border:1px solid #0ea5e9;';
+            const label = document.createElement('div');
+            label.style.cssText = 'position:absolute;left:-1px;bottom:100%;padding:1px 4px;white-space:nowrap;'
+              + 'font:11px/16px monospace;color:#fff;background:#0ea5e9;border-radius:2px 2px 0 0;';
+            highlight.appendChild(label);
+          }
+          const rect = element.getBoundingClientRect();
+          Object.assign(highlight.style, { left: rect.left + 'px', top: rect.top + 'px', width: rect.width + 'px', height: rect.height + 'px' });
+          highlight.firstChild.textContent = describeElement(element) + ' ' + Math.round(rect.width) + '×' + Math.round(rect.height);
+          highlight.firstChild.style.top = rect.top < 18 ? '100%' : '';
+          highlight.firstChild.style.bottom = rect.top < 18 ? '' : '100%';
+          if (!highlight.isConnected) document.documentElement.appendChild(highlight);
+        };
+        const hideHighlight = () => {
+          hovered = null;
+          if (highlight) highlight.remove();
+        };
+        const readPosition = value => {
+          const match = /^(\\d+):(\\d+)$/.exec(value || '');
+          return match ? { line: Number(match[1]), column: Number(match[2]) } : null;
+        };
+        const collectRules = (element, rules, media, found) => {
+          for (const rule of rules) {
+            if (rule instanceof CSSStyleRule) {
+              let matches = false;
+              try {
+                matches = element.matches(rule.selectorText);
+              } catch (e) {
+                // Selectors this browser can't match, e.g. with vendor pseudo-classes.
+              }
+              if (!matches) continue;
+              const owner = rule.parentStyleSheet && rule.parentStyleSheet.ownerNode;
+              found.push({
+                selector: rule.selectorText,
+                declarations: rule.style.cssText,
+                media,
+                file: (owner && owner.getAttribute && owner.getAttribute('data-preview-source')) || null,
+                position: owner && owner.getAttribute ? readPosition(owner.getAttribute(SOURCE_POSITION)) : null,
+              });
+            } else if (rule instanceof CSSMediaRule) {
+              if (window.matchMedia(rule.media.mediaText).matches) collectRules(element, rule.cssRules, rule.media.mediaText, found);
+            } else if (rule.cssRules) {
+              collectRules(element, rule.cssRules, media, found);
+            }
+          }
+        };
+        const inspectElement = element => {
+          const written = element.closest('[' + SOURCE_POSITION + ']');
+          const computed = getComputedStyle(element);
+          const rules = [];
+          for (const sheet of document.styleSheets) {
+            try {
+              collectRules(element, sheet.cssRules, null, rules);
+            } catch (e) {
+              // Rules of cross-origin stylesheets can't be read.
+            }
+          }
+          const rect = element.getBoundingClientRect();
+          return {
+            description: describeElement(element),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+            location: written ? readPosition(written.getAttribute(SOURCE_POSITION)) : null,
+            exact: written === element,
+            styles: INSPECTED_STYLES.map(name => [name, computed.getPropertyValue(name)]),
+            rules,
+          };
+        };
+        const setInspecting = enabled => {
+          inspecting = !!enabled;
+          document.documentElement.style.cursor = inspecting ? 'crosshair' : '';
+          if (!inspecting) hideHighlight();
+        };
+        window.addEventListener('mouseover', event => {
+          if (!inspecting || !(event.target instanceof Element) || event.target === highlight) return;
+          hovered = event.target;
+          showHighlight(hovered);
+        }, true);
+        window.addEventListener('scroll', () => {
+          if (inspecting && hovered) showHighlight(hovered);
+        }, true);
+        document.addEventListener('mouseleave', () => {
+          if (inspecting) hideHighlight();
+        });
+        for (const name of ['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click', 'dblclick', 'contextmenu']) {
+          window.addEventListener(name, event => {
+            if (!inspecting) return;
+            event.preventDefault();
+            event.stopImmediatePropagation();
+            if (name !== 'click' || !(event.target instanceof Element)) return;
+            const payload = inspectElement(event.target);
+            setInspecting(false);
+            postToEditor('ELEMENT_SELECTED', payload);
+          }, true);
+        }
+        window.addEventListener('keydown', event => {
+          if (!inspecting || event.key !== 'Escape') return;
+          event.preventDefault();
+          setInspecting(false);
+          postToEditor('INSPECT_CANCELLED');
+        }, true);
+
+        // The preview is an srcdoc document, so links between project pages are handled by the editor.
+        document.addEventListener('click', event => {
+          const link = event.target instanceof Element ? event.target.closest('a[href]') : null;
+          if (!link || event.defaultPrevented || event.button !== 0 || event.ctrlKey || event.metaKey || event.shiftKey) return;
+          const href = link.getAttribute('href');
+          if (!href || href.startsWith('#') || href.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(href)) return;
+          event.preventDefault();
+          postToEditor('NAVIGATE', { href });
+        });
+      })();
+    `;
+  }
+}
@@ -0,0 +1,286 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { StorageService } from './storage.service';
+import { PreviewDevice, readDevice } from '../utils/devices.utils';
+import { DEFAULT_PREVIEW_SECURITY, PreviewSecurity, readPreviewSecurity } from '../utils/preview-security.utils';
+import { AiChatThread, AiHistoryEntry, readAiThreads } from '../utils/ai-chat.utils';
+
+export type EditorType = 'html' | 'css' | 'js' | 'ts' | 'json' | 'md' | 'scss' | 'xml' | 'svg' | 'txt' | 'yaml';
+
+/** Text files are edited in Monaco; binary assets (images, fonts, media) are only previewed. */
+export type FileLanguage = EditorType | 'binary';
+
+export interface ProjectFile {
+  /** Full path relative to the project root, e.g. `css/style.css`. */
+  name: string;
+  /** Text content; always empty for binary assets. */
+  content: string;
+  language: FileLanguage;
+  /** Data of a binary asset. */
+  blob?: Blob;
+}
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface ProjectState {
+  files: ProjectFile[];
+  /** Explicitly created folders. Folders implied by file paths don't need to be listed here. */
+  folders: string[];
+  /** Paths of the files open in tabs, in tab order. */
+  openFiles: string[];
+  activeFile: string | null;
+  /** Conversations with the AI assistant. */
+  aiThreads: AiChatThread[];
+  /** Id of the thread open in the assistant; null for a new one. */
+  activeAiThread: string | null;
+  /** HTML page the preview starts on; null picks the project's main page. */
+  entryPage: string | null;
+  /** Device the preview emulates; null fills the preview pane. */
+  device: PreviewDevice | null;
+  /** Sandbox and Content-Security-Policy of the preview. */
+  previewSecurity: PreviewSecurity;
+}
+
+/** Everything in `ProjectState` except the files, which are stored one record per file. */
+type StoredProjectState = Omit<ProjectState, 'files'>;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectService {
+  private storage = inject(StorageService);
+
+  private readonly ACTIVE_PROJECT_SETTING = 'active-project';
+  private readonly MIGRATION_SETTING = 'local-storage-migrated';
+  // localStorage keys used before project data moved to IndexedDB.
+  private readonly LEGACY_STORAGE_PREFIX = 'ai-code-editor-v2-';
+  private readonly LEGACY_PROJECTS_KEY = `${this.LEGACY_STORAGE_PREFIX}projects`;
+  private readonly LEGACY_ACTIVE_PROJECT_KEY = `${this.LEGACY_STORAGE_PREFIX}active-project`;
+  private readonly LEGACY_FILES_KEY = `${this.LEGACY_STORAGE_PREFIX}files`;
+  private readonly LEGACY_FOLDERS_KEY = `${this.LEGACY_STORAGE_PREFIX}folders`;
+
+  projects = signal<ProjectMeta[]>([]);
+  activeProjectId = signal<string>('');
+  activeProject = computed(() => this.projects().find(p => p.id === this.activeProjectId()) ?? null);
+  /** State of the active project as loaded by `init()`, used to seed the editor. */
+  activeProjectState: ProjectState = ProjectService.createDefaultState();
+
+  // What was last written for the active project, so saves only touch what changed.
+  private savedFiles = new Map<string, ProjectFile>();
+  private savedStateJson = '';
+
+  /**
+   * Loads the project list and the active project. Runs once before the app starts. If the
+   * storage can't be opened, the editor starts anyway with its data kept in memory.
+   */
+  async init(): Promise<void> {
+    try {
+      await this.load(true);
+    } catch (error) {
+      this.storage.useMemoryFallback(error);
+      await this.load(false);
+    }
+  }
+
+  // Legacy data is only removed from localStorage once it's been written somewhere lasting.
+  private async load(persistent: boolean): Promise<void> {
+    if (!await this.storage.get<boolean>('settings', this.MIGRATION_SETTING)) {
+      await this.migrateFromLocalStorage(persistent);
+    }
+
+    let projects = await this.storage.getAllByPrefix<ProjectMeta>('projects', '');
+    if (projects.length === 0) {
+      projects = [await this.writeProject({ id: crypto.randomUUID(), name: 'Мой проект', createdAt: new Date().toISOString() }, ProjectService.createDefaultState())];
+    }
+    this.projects.set(projects.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+
+    const storedActiveId = await this.storage.get<string>('settings', this.ACTIVE_PROJECT_SETTING);
+    const activeId = projects.some(p => p.id === storedActiveId) ? storedActiveId! : projects[0].id;
+    this.activeProjectState = await this.openProject(activeId);
+  }
+
+  /** Makes a project active and returns its stored state. */
+  async openProject(id: string): Promise<ProjectState> {
+    const state = await this.readProjectState(id);
+    this.activeProjectId.set(id);
+    this.savedFiles = new Map(state.files.map(f => [f.name, f]));
+    this.savedStateJson = JSON.stringify(this.withoutFiles(state));
+    this.persist(this.storage.put('settings', this.ACTIVE_PROJECT_SETTING, id));
+    return state;
+  }
+
+  /** Writes the active project, touching only the files that changed since the last save. */
+  saveProjectState(state: ProjectState) {
+    const id = this.activeProjectId();
+    const currentFiles = new Map(state.files.map(f => [f.name, f]));
+
+    for (const [name, file] of currentFiles) {
+      if (this.savedFiles.get(name) === file) continue;
+      this.persist(this.storage.put('files', this.fileKey(id, name), file), () => this.savedFiles.set(name, file));
+    }
+    for (const name of this.savedFiles.keys()) {
+      if (currentFiles.has(name)) continue;
+      this.persist(this.storage.delete('files', this.fileKey(id, name)), () => this.savedFiles.delete(name));
+    }
+
+    const stateJson = JSON.stringify(this.withoutFiles(state));
+    if (stateJson !== this.savedStateJson) {
+      this.persist(this.storage.put('project-state', id, this.withoutFiles(state)), () => this.savedStateJson = stateJson);
+    }
+  }
+
+  async createProject(name: string, state: ProjectState = ProjectService.createDefaultState()): Promise<ProjectMeta> {
+    const project = await this.writeProject({ id: crypto.randomUUID(), name: this.uniqueName(name), createdAt: new Date().toISOString() }, state);
+    this.projects.update(projects => [...projects, project]);
+    return project;
+  }
+
+  async renameProject(id: string, name: string) {
+    const trimmed = name.trim();
+    const project = this.projects().find(p => p.id === id);
+    if (!trimmed || !project) return;
+    const renamed = { ...project, name: trimmed };
+    this.projects.update(projects => projects.map(p => (p.id === id ? renamed : p)));
+    await this.persist(this.storage.put('projects', id, renamed));
+  }
+
+  async duplicateProject(id: string): Promise<ProjectMeta | null> {
+    const source = this.projects().find(p => p.id === id);
+    if (!source) return null;
+    return this.createProject(`${source.name} (копия)`, await this.readProjectState(id));
+  }
+
+  /** Removes a project and its data. The active project and the last remaining one can't be deleted. */
+  async deleteProject(id: string): Promise<boolean> {
+    if (this.projects().length <= 1 || id === this.activeProjectId()) return false;
+    this.projects.update(projects => projects.filter(p => p.id !== id));
+    await Promise.all([
+      this.persist(this.storage.deleteByPrefix('files', `${id}/`)),
+      this.persist(this.storage.delete('project-state', id)),
+      this.persist(this.storage.delete('projects', id)),
+      this.persist(this.storage.deleteByPrefix('history', `${id}/`)),
+    ]);
+    return true;
+  }
+
+  static createDefaultState(): ProjectState {
+    return {
+      files: [
+        { name: 'index.html', content: `<!DOCTYPE html>\n<html>\n<head>\n  <link rel="stylesheet" href="style.css">\n</head>\n<body>\n  <h1>Привет, Мир!</h1>\n  <p>Это ваш живой редактор кода.</p>\n  <button onclick="logSomething()">Нажми меня</button>\n  <script src="script.js"></script>\n</body>\n</html>`, language: 'html' },
+        { name: 'style.css', content: `body { \n  font-family: sans-serif;\n  background: #ffffff;\n  padding: 1rem;\n}`, language: 'css' },
+        { name: 'script.js', content: `console.log('Скрипт загружен!');\n\nfunction logSomething() {\n  console.log('Кнопка была нажата в', new Date().toLocaleTimeString());\n  console.warn('Это предупреждение.');\n  console.error('А это — ошибка!');\n}`, language: 'js' },
+      ],
+      folders: [],
+      openFiles: ['index.html', 'style.css', 'script.js'],
+      activeFile: 'index.html',
+      aiThreads: [],
+      activeAiThread: null,
+      entryPage: null,
+      device: null,
+      previewSecurity: { ...DEFAULT_PREVIEW_SECURITY, sandbox: [...DEFAULT_PREVIEW_SECURITY.sandbox] },
+    };
+  }
+
+  private async readProjectState(id: string): Promise<ProjectState> {
+    const defaults = ProjectService.createDefaultState();
+    const [files, stored] = await Promise.all([
+      this.storage.getAllByPrefix<ProjectFile>('files', `${id}/`),
+      // Projects saved before chat threads have `aiHistory` instead.
+      this.storage.get<Partial<StoredProjectState> & { aiHistory?: AiHistoryEntry[] }>('project-state', id),
+    ]);
+    if (!stored) return defaults;
+    return {
+      files,
+      folders: stored.folders ?? [],
+      openFiles: stored.openFiles ?? defaults.openFiles,
+      activeFile: stored.activeFile ?? null,
+      aiThreads: readAiThreads(stored.aiThreads, stored.aiHistory),
+      activeAiThread: stored.activeAiThread ?? null,
+      entryPage: stored.entryPage ?? null,
+      device: readDevice(stored.device),
+      previewSecurity: readPreviewSecurity(stored.previewSecurity),
+    };
+  }
+
+  private async writeProject(project: ProjectMeta, state: ProjectState): Promise<ProjectMeta> {
+    await Promise.all([
+      ...state.files.map(file => this.storage.put('files', this.fileKey(project.id, file.name), file)),
+      this.storage.put('project-state', project.id, this.withoutFiles(state)),
+    ]);
+    // The project record goes last so a failed write never leaves a listed project without files.
+    await this.storage.put('projects', project.id, project);
+    return project;
+  }
+
+  /** Moves data saved in localStorage by earlier versions of the editor into storage. */
+  private async migrateFromLocalStorage(removeLegacy: boolean) {
+    const legacyProjects = this.readLegacy<ProjectMeta[]>(this.LEGACY_PROJECTS_KEY);
+    const migratedKeys = [this.LEGACY_PROJECTS_KEY, this.LEGACY_ACTIVE_PROJECT_KEY, this.LEGACY_FILES_KEY, this.LEGACY_FOLDERS_KEY];
+
+    if (legacyProjects) {
+      for (const project of legacyProjects) {
+        const key = `${this.LEGACY_STORAGE_PREFIX}project-${project.id}`;
+        const state = this.readLegacy<Partial<ProjectState> & { aiHistory?: AiHistoryEntry[] }>(key);
+        await this.writeProject(project, { ...ProjectService.createDefaultState(), ...state, aiThreads: readAiThreads(state?.aiThreads, state?.aiHistory) });
+        migratedKeys.push(key);
+      }
+      const activeId = this.readLegacy<string>(this.LEGACY_ACTIVE_PROJECT_KEY);
+      if (activeId) {
+        await this.storage.put('settings', this.ACTIVE_PROJECT_SETTING, activeId);
+      }
+    } else {
+      // Before projects existed there was a single global file set.
+      const files = this.readLegacy<ProjectFile[]>(this.LEGACY_FILES_KEY);
+      if (files) {
+        const state = { ...ProjectService.createDefaultState(), files, folders: this.readLegacy<string[]>(this.LEGACY_FOLDERS_KEY) ?? [] };
+        await this.writeProject({ id: crypto.randomUUID(), name: 'Мой проект', createdAt: new Date().toISOString() }, state);
+      }
+    }
+
+    await this.storage.put('settings', this.MIGRATION_SETTING, true);
+    if (!removeLegacy) return;
+    for (const key of migratedKeys) {
+      try {
+        localStorage.removeItem(key);
+      } catch (e) {
+        console.error(`Failed to remove migrated item '${key}' from localStorage`, e);
+      }
+    }
+  }
+
+  private readLegacy<T>(key: string): T | null {
+    try {
+      const value = localStorage.getItem(key);
+      return value ? JSON.parse(value) as T : null;
+    } catch (e) {
+      console.error(`Failed to read '${key}' from localStorage`, e);
+      return null;
+    }
+  }
+
+  private uniqueName(name: string): string {
+    const base = name.trim() || 'Новый проект';
+    const taken = new Set(this.projects().map(p => p.name));
+    let candidate = base;
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${base} ${i}`;
+    }
+    return candidate;
+  }
+
+  private withoutFiles({ files, ...rest }: ProjectState): StoredProjectState {
+    return rest;
+  }
+
+  private fileKey(projectId: string, path: string): string {
+    return `${projectId}/${path}`;
+  }
+
+  /** Runs a write, calling `onSuccess` once it lands. Failures are already reported by the storage. */
+  private persist(write: Promise<void>, onSuccess?: () => void): Promise<void> {
+    return write.then(onSuccess, () => {});
+  }
+}
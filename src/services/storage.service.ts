@@ -0,0 +1,45 @@
+import { signal } from '@angular/core';
+
+export type StoreName = 'projects' | 'files' | 'project-state' | 'settings' | 'history';
+
+export const STORE_NAMES: StoreName[] = ['projects', 'files', 'project-state', 'settings', 'history'];
+
+/**
+ * Persistent key-value storage for project data. Keys are plain strings; related records
+ * share a prefix (e.g. `<projectId>/<path>` in the `files` store) so they can be read or
+ * removed together.
+ *
+ * The app provides the IndexedDB implementation in `index.tsx`; tests can provide
+ * `InMemoryStorageService` instead.
+ */
+export abstract class StorageService {
+  /** The last failed write, shown to the user until dismissed. */
+  writeError = signal<string | null>(null);
+
+  abstract get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  abstract getAllByPrefix<T>(store: StoreName, prefix: string): Promise<T[]>;
+  abstract put(store: StoreName, key: string, value: unknown): Promise<void>;
+  abstract delete(store: StoreName, key: string): Promise<void>;
+  abstract deleteByPrefix(store: StoreName, prefix: string): Promise<void>;
+
+  reportWriteError(error: unknown) {
+    console.error('Failed to save data', error);
+    const isQuotaError = error instanceof DOMException && error.name === 'QuotaExceededError';
+    this.writeError.set(isQuotaError
+      ? 'Недостаточно места в хранилище браузера. Последние изменения не сохранены.'
+      : `Не удалось сохранить изменения: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  /**
+   * Keeps data in memory from now on, for when the storage can't be opened (private mode,
+   * blocked storage, a failed upgrade). Nothing written afterwards survives a reload.
+   */
+  useMemoryFallback(error: unknown) {
+    console.error('Storage is unavailable, keeping data in memory', error);
+    this.writeError.set('Хранилище браузера недоступно. Изменения не сохранятся после закрытия или перезагрузки страницы.');
+  }
+
+  dismissWriteError() {
+    this.writeError.set(null);
+  }
+}
@@ -0,0 +1,105 @@
+// Conversations with the AI assistant. A project keeps several threads; the earlier turns of a
+// thread are sent along with each request, so a follow-up can build on the answers and edits before it.
+
+export interface AiChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  /** The file operations an answer applied, e.g. "modify index.html". */
+  edits?: string[];
+  /** The answer was cancelled part-way; neither it nor its request is sent as context. */
+  cancelled?: boolean;
+  /** The changes of an answer were turned down in review or undone afterwards. */
+  reverted?: boolean;
+  timestamp: string;
+}
+
+export interface AiChatThread {
+  id: string;
+  title: string;
+  messages: AiChatMessage[];
+  updatedAt: string;
+}
+
+/** A turn of the conversation as it's sent to the model. */
+export interface AiChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Legacy single-turn history of the assistant, turned into a thread when a project is opened. */
+export interface AiHistoryEntry {
+  prompt: string;
+  explanation: string;
+  timestamp: string;
+}
+
+export const NEW_THREAD_TITLE = 'Новый чат';
+const TITLE_LENGTH = 60;
+
+export function createMessage(role: AiChatMessage['role'], text: string, details: Pick<AiChatMessage, 'edits' | 'cancelled'> = {}): AiChatMessage {
+  return { id: crypto.randomUUID(), role, text, ...details, timestamp: new Date().toISOString() };
+}
+
+export function createThread(messages: AiChatMessage[] = []): AiChatThread {
+  return { id: crypto.randomUUID(), title: getThreadTitle(messages), messages, updatedAt: new Date().toISOString() };
+}
+
+/** Titles a thread after its first request. */
+export function getThreadTitle(messages: AiChatMessage[]): string {
+  const first = messages.find(m => m.role === 'user')?.text.replace(/\s+/g, ' ').trim();
+  if (!first) return NEW_THREAD_TITLE;
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+}
+
+/** Adds messages to a thread, titling it if it was untitled. */
+export function appendMessages(thread: AiChatThread, ...messages: AiChatMessage[]): AiChatThread {
+  const all = [...thread.messages, ...messages];
+  const title = thread.title === NEW_THREAD_TITLE ? getThreadTitle(all) : thread.title;
+  return { ...thread, title, messages: all, updatedAt: new Date().toISOString() };
+}
+
+/** Changes a message of a thread, e.g. to record what became of the changes of an answer. */
+export function updateMessage(thread: AiChatThread, messageId: string, changes: Partial<Pick<AiChatMessage, 'text' | 'edits' | 'reverted'>>): AiChatThread {
+  return { ...thread, messages: thread.messages.map(m => (m.id === messageId ? { ...m, ...changes } : m)) };
+}
+
+/** A new thread with the messages of `thread` up to and including `messageId`. */
+export function branchThread(thread: AiChatThread, messageId: string): AiChatThread {
+  const index = thread.messages.findIndex(m => m.id === messageId);
+  const branch = createThread(thread.messages.slice(0, index + 1));
+  return { ...branch, title: `${thread.title} (ветка)` };
+}
+
+/**
+ * The context for the next request: the last `exchanges` requests with their answers. Requests
+ * whose answer was cancelled or never came are left out, so user and model turns alternate.
+ */
+export function getChatTurns(messages: AiChatMessage[], exchanges: number): AiChatTurn[] {
+  const turns: AiChatTurn[] = [];
+  for (let i = 0; i < messages.length - 1; i++) {
+    const [request, answer] = [messages[i], messages[i + 1]];
+    if (request.role !== 'user' || answer.role !== 'model' || answer.cancelled) continue;
+    const edits = answer.reverted
+      ? '\n\n[The user did not keep these changes]'
+      : answer.edits?.length ? `\n\n[Applied operations: ${answer.edits.join('; ')}]` : '';
+    turns.push({ role: 'user', text: request.text }, { role: 'model', text: `${answer.text}${edits}` });
+    i++;
+  }
+  return turns.slice(-exchanges * 2);
+}
+
+/** Checks stored threads, turning the legacy request history into a thread of its own. */
+export function readAiThreads(value: unknown, legacyHistory?: AiHistoryEntry[]): AiChatThread[] {
+  const threads = Array.isArray(value)
+    ? (value as AiChatThread[]).filter(t => t && typeof t.id === 'string' && Array.isArray(t.messages))
+    : [];
+  if (!Array.isArray(value) && legacyHistory?.length) {
+    const messages = legacyHistory.flatMap(entry => [
+      { ...createMessage('user', entry.prompt), timestamp: entry.timestamp },
+      { ...createMessage('model', entry.explanation), timestamp: entry.timestamp },
+    ]);
+    threads.push({ ...createThread(messages), title: 'Предыдущие запросы' });
+  }
+  return threads;
+}
@@ -0,0 +1,54 @@
+// Changes to the project proposed by the AI assistant, as a list of operations on files. The
+// response is model output, so operations are checked before anything is applied: malformed ones
+// are dropped here, and the ones that don't fit the project are turned down when they're applied.
+
+import { normalizePath } from './path.utils';
+
+export type AiFileOperation =
+  | { type: 'create'; path: string; content: string }
+  | { type: 'modify'; path: string; content: string }
+  | { type: 'delete'; path: string }
+  | { type: 'rename'; path: string; newPath: string };
+
+/** A file as it's sent along with a request. */
+export interface AiProjectFile {
+  path: string;
+  /** Null for binary assets, which are only listed by path. */
+  content: string | null;
+}
+
+/** An operation that wasn't applied, and why. */
+export interface AiRejectedOperation {
+  operation: AiFileOperation;
+  reason: string;
+}
+
+const OPERATION_TYPES: AiFileOperation['type'][] = ['create', 'modify', 'delete', 'rename'];
+
+/** Checks the operations of a response, normalizing their paths; malformed operations are left out. */
+export function readFileOperations(value: unknown): AiFileOperation[] {
+  if (!Array.isArray(value)) return [];
+  const operations: AiFileOperation[] = [];
+  for (const item of value) {
+    const operation = item as Record<string, unknown> | null;
+    const type = operation?.['type'] as AiFileOperation['type'];
+    const path = typeof operation?.['path'] === 'string' ? normalizePath(operation['path']) : null;
+    if (!OPERATION_TYPES.includes(type) || !path) continue;
+    if (type === 'create' || type === 'modify') {
+      if (typeof operation?.['content'] !== 'string') continue;
+      operations.push({ type, path, content: operation['content'] });
+    } else if (type === 'rename') {
+      const newPath = typeof operation?.['newPath'] === 'string' ? normalizePath(operation['newPath']) : null;
+      if (!newPath || newPath === path) continue;
+      operations.push({ type, path, newPath });
+    } else {
+      operations.push({ type, path });
+    }
+  }
+  return operations;
+}
+
+/** A one-line description of an operation for the conversation ("rename a.js → b.js"). */
+export function describeFileOperation(operation: AiFileOperation): string {
+  return operation.type === 'rename' ? `${operation.type} ${operation.path} → ${operation.newPath}` : `${operation.type} ${operation.path}`;
+}
@@ -0,0 +1,77 @@
+// What the AI assistant is asked, in the same words whichever provider answers.
+
+import { AiProjectFile } from './ai-operations.utils';
+
+export type AiCodeAction = 'explain' | 'bugs' | 'refactor' | 'comment';
+
+export const CODE_MODIFICATION_INSTRUCTION = `You are an expert web development AI assistant integrated into a code editor.
+The user has provided the files of their project and a request for modification or generation.
+Your task is to fulfill the user's request.
+Analyze the provided files and the user's prompt.
+Provide a concise explanation of the changes you've made or the code you've generated.
+Return the changes as a list of file operations:
+- "create": a new file at 'path' with the full 'content'.
+- "modify": the complete, updated 'content' of the existing file at 'path'.
+- "delete": removes the file at 'path'.
+- "rename": moves the file at 'path' to 'newPath'; to also change it, add a "modify" of 'newPath' after it.
+Paths are relative to the project root and use '/' as the separator. Binary assets are listed without content; they can be renamed or deleted, but not created or modified.
+Only include operations for files you actually change. If nothing needs to change, return an empty list.
+Earlier messages of the conversation may precede the request. The files provided with the request are always the current files, with the changes you made earlier already applied; follow-up requests refer to them.
+The JSON object has an "explanation" string first, then an "operations" array of objects with "type", "path", "newPath" and "content" fields.
+Respond ONLY with a valid JSON object matching the specified schema.`;
+
+export function buildCodeModificationPrompt(files: AiProjectFile[], prompt: string): string {
+  const listing = files.map(file => file.content === null
+    ? `File: ${file.path} (binary)`
+    : `File: ${file.path}\n\`\`\`\n${file.content}\n\`\`\``);
+  return `User's Request: "${prompt}"
+
+Project files:
+
+${listing.join('\n\n')}
+`;
+}
+
+/** The JSON schema of a code modification, for providers that take a standard JSON schema. */
+export const CODE_MODIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    // The explanation comes first so it can be shown while the operations are still arriving.
+    explanation: { type: 'string', description: 'An explanation of the changes you are making.' },
+    operations: {
+      type: 'array',
+      description: 'The file operations to apply, in order.',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['create', 'modify', 'delete', 'rename'] },
+          path: { type: 'string', description: 'The path of the file.' },
+          newPath: { type: 'string', description: 'For "rename": the new path of the file.' },
+          content: { type: 'string', description: 'For "create" and "modify": the complete content of the file.' },
+        },
+        required: ['type', 'path'],
+      },
+    },
+  },
+  required: ['explanation', 'operations'],
+};
+
+export const CODE_ANALYSIS_INSTRUCTION = `You are an expert web development AI assistant. A user has selected a piece of code and asked for help. Your task is to provide a clear, concise, and helpful response. Format your response using markdown. If you provide code, use appropriate markdown code blocks.`;
+
+export function buildCodeAnalysisPrompt(code: string, language: string, action: AiCodeAction): string {
+  let task: string;
+  switch (action) {
+    case 'explain': task = 'Explain the following code snippet.'; break;
+    case 'bugs': task = 'Analyze the following code snippet for potential bugs or errors. Explain them clearly.'; break;
+    case 'refactor': task = 'Refactor or improve the following code snippet. Provide the improved code and explain the changes.'; break;
+    case 'comment': task = 'Add comments to the following code snippet to explain its functionality. Provide the commented code.'; break;
+  }
+  return `${task}
+
+Language: ${language}
+Code:
+\`\`\`${language}
+${code}
+\`\`\`
+`;
+}
@@ -0,0 +1,102 @@
+// Which model provider the AI features use, and the settings of each provider. Settings are kept
+// per provider, so switching back and forth doesn't lose a key or an endpoint.
+
+export type AiProviderKind = 'gemini' | 'openai' | 'local' | 'mock';
+
+/** What a provider can be asked to do. */
+export type AiCapability = 'code' | 'analysis' | 'image' | 'search';
+
+export interface AiProviderSettings {
+  apiKey: string;
+  /** The endpoint of an OpenAI-compatible API, up to and including the version ("…/v1"). */
+  baseUrl: string;
+  model: string;
+  /** Models to choose from; fetched from the provider where it can list them. */
+  models: string[];
+}
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  providers: Record<AiProviderKind, AiProviderSettings>;
+}
+
+export interface AiProviderInfo {
+  kind: AiProviderKind;
+  label: string;
+  description: string;
+  capabilities: AiCapability[];
+  /** Whether requests fail without an API key. */
+  requiresApiKey: boolean;
+  /** Whether the provider talks to a configurable endpoint. */
+  hasBaseUrl: boolean;
+  /** Whether the models can be fetched from the provider. */
+  canListModels: boolean;
+  defaults: AiProviderSettings;
+}
+
+export const AI_PROVIDERS: AiProviderInfo[] = [
+  {
+    kind: 'gemini',
+    label: 'Google Gemini',
+    description: 'Gemini API. Ключ можно получить в Google AI Studio.',
+    capabilities: ['code', 'analysis', 'image', 'search'],
+    requiresApiKey: true,
+    hasBaseUrl: false,
+    canListModels: false,
+    defaults: { apiKey: '', baseUrl: '', model: 'gemini-2.5-flash', models: ['gemini-2.5-flash', 'gemini-1.5-pro', 'gemini-1.5-flash'] },
+  },
+  {
+    kind: 'openai',
+    label: 'OpenAI-совместимый API',
+    description: 'OpenAI или любой сервис с тем же API (Chat Completions).',
+    capabilities: ['code', 'analysis', 'image'],
+    requiresApiKey: true,
+    hasBaseUrl: true,
+    canListModels: true,
+    defaults: { apiKey: '', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', models: ['gpt-4o-mini', 'gpt-4o'] },
+  },
+  {
+    kind: 'local',
+    label: 'Локальный сервер моделей',
+    description: 'Ollama, LM Studio, llama.cpp и другие серверы с OpenAI-совместимым API. Ключ обычно не нужен.',
+    capabilities: ['code', 'analysis', 'image'],
+    requiresApiKey: false,
+    hasBaseUrl: true,
+    canListModels: true,
+    defaults: { apiKey: '', baseUrl: 'http://localhost:11434/v1', model: '', models: [] },
+  },
+  {
+    kind: 'mock',
+    label: 'Тестовый (без сети)',
+    description: 'Детерминированные ответы без обращения к сети, для проверки работы редактора с AI.',
+    capabilities: ['code', 'analysis', 'image', 'search'],
+    requiresApiKey: false,
+    hasBaseUrl: false,
+    canListModels: false,
+    defaults: { apiKey: '', baseUrl: '', model: 'mock', models: ['mock'] },
+  },
+];
+
+export function getProviderInfo(kind: AiProviderKind): AiProviderInfo {
+  return AI_PROVIDERS.find(p => p.kind === kind)!;
+}
+
+/** Checks stored settings, falling back to the defaults; a key saved before there were providers becomes Gemini's. */
+export function readAiSettings(value: unknown, legacyApiKey = ''): AiSettings {
+  const settings = value as Partial<AiSettings> | null | undefined;
+  const stored = (settings?.providers ?? {}) as Partial<Record<AiProviderKind, Partial<AiProviderSettings>>>;
+  const providers = {} as Record<AiProviderKind, AiProviderSettings>;
+  for (const { kind, defaults } of AI_PROVIDERS) {
+    const provider = stored[kind];
+    const text = (field: 'apiKey' | 'baseUrl' | 'model') => (typeof provider?.[field] === 'string' ? provider[field] : defaults[field]);
+    providers[kind] = {
+      apiKey: text('apiKey'),
+      baseUrl: text('baseUrl'),
+      model: text('model'),
+      models: Array.isArray(provider?.models) ? provider.models.filter(m => typeof m === 'string') : [...defaults.models],
+    };
+  }
+  if (!settings && legacyApiKey) providers.gemini.apiKey = legacyApiKey;
+  const provider = AI_PROVIDERS.some(p => p.kind === settings?.provider) ? settings!.provider! : 'gemini';
+  return { provider, providers };
+}
@@ -0,0 +1,47 @@
+import { getExtension } from './path.utils';
+
+// Binary files the project can hold next to its source files.
+
+export type AssetKind = 'image' | 'font' | 'audio' | 'video' | 'other';
+
+const ASSET_TYPES: Record<string, { mimeType: string; kind: AssetKind }> = {
+  png: { mimeType: 'image/png', kind: 'image' },
+  jpg: { mimeType: 'image/jpeg', kind: 'image' },
+  jpeg: { mimeType: 'image/jpeg', kind: 'image' },
+  gif: { mimeType: 'image/gif', kind: 'image' },
+  webp: { mimeType: 'image/webp', kind: 'image' },
+  avif: { mimeType: 'image/avif', kind: 'image' },
+  bmp: { mimeType: 'image/bmp', kind: 'image' },
+  ico: { mimeType: 'image/x-icon', kind: 'image' },
+  woff: { mimeType: 'font/woff', kind: 'font' },
+  woff2: { mimeType: 'font/woff2', kind: 'font' },
+  ttf: { mimeType: 'font/ttf', kind: 'font' },
+  otf: { mimeType: 'font/otf', kind: 'font' },
+  mp3: { mimeType: 'audio/mpeg', kind: 'audio' },
+  wav: { mimeType: 'audio/wav', kind: 'audio' },
+  ogg: { mimeType: 'audio/ogg', kind: 'audio' },
+  m4a: { mimeType: 'audio/mp4', kind: 'audio' },
+  mp4: { mimeType: 'video/mp4', kind: 'video' },
+  webm: { mimeType: 'video/webm', kind: 'video' },
+  pdf: { mimeType: 'application/pdf', kind: 'other' },
+};
+
+export const ASSET_EXTENSIONS = Object.keys(ASSET_TYPES);
+
+export function isAssetPath(path: string): boolean {
+  return getExtension(path) in ASSET_TYPES;
+}
+
+export function getAssetMimeType(path: string): string {
+  return ASSET_TYPES[getExtension(path)]?.mimeType ?? 'application/octet-stream';
+}
+
+export function getAssetKind(path: string): AssetKind {
+  return ASSET_TYPES[getExtension(path)]?.kind ?? 'other';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} Б`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+}
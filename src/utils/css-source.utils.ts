@@ -0,0 +1,46 @@
+// Finds CSS rules in stylesheet source, e.g. to open the rule an element picked in the preview
+// matched. The browser normalizes selectors (whitespace, quotes), so they're compared without those.
+
+/**
+ * Position (1-based) of the first rule whose selector is `selector`, or null if there is none.
+ * Rules generated from nested SCSS don't appear in the source as such and aren't found.
+ */
+export function findCssRule(css: string, selector: string): { line: number; column: number } | null {
+  const text = css.replace(/\/\*[\s\S]*?(\*\/|$)/g, comment => comment.replace(/[^\n]/g, ' '));
+  const wanted = normalizeSelector(selector);
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '{') {
+      if (normalizeSelector(text.slice(start, i)) === wanted) {
+        return getPosition(css, start + text.slice(start, i).search(/\S/));
+      }
+      start = i + 1;
+    } else if (char === '}' || char === ';') {
+      start = i + 1;
+    }
+  }
+  return null;
+}
+
+function normalizeSelector(selector: string): string {
+  return selector.replace(/\s+|["']/g, '');
+}
+
+/** 1-based line and column of an offset in `text`. */
+export function getPosition(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+/** Offset in `text` of a 1-based line and column. */
+export function getOffset(text: string, position: { line: number; column: number }): number {
+  let offset = 0;
+  for (let line = 1; line < position.line; line++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) return text.length;
+    offset = next + 1;
+  }
+  return Math.min(offset + position.column - 1, text.length);
+}
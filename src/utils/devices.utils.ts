@@ -0,0 +1,86 @@
+// Device emulation for the preview: the page is laid out in a viewport of the device's size
+// (so its media queries see that width and height) and scaled to fit the preview pane.
+
+export type DeviceCategory = 'phone' | 'tablet' | 'desktop';
+
+export interface DevicePreset {
+  id: string;
+  name: string;
+  category: DeviceCategory;
+  /** Portrait viewport size in CSS pixels. */
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+}
+
+export interface PreviewDevice {
+  /** Id of the preset the size comes from, or 'custom'. */
+  preset: string;
+  width: number;
+  height: number;
+  landscape: boolean;
+  /** Scale in percent, or 'fit' to fit the preview pane. */
+  zoom: number | 'fit';
+  devicePixelRatio: number;
+}
+
+export const CUSTOM_DEVICE = 'custom';
+export const MIN_VIEWPORT_SIZE = 50;
+export const MAX_VIEWPORT_SIZE = 4000;
+export const DEVICE_ZOOM_LEVELS = [50, 75, 100, 125, 150];
+export const DEVICE_PIXEL_RATIOS = [1, 1.5, 2, 2.625, 3];
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'iphone-se', name: 'iPhone SE', category: 'phone', width: 375, height: 667, devicePixelRatio: 2 },
+  { id: 'iphone-15', name: 'iPhone 15', category: 'phone', width: 393, height: 852, devicePixelRatio: 3 },
+  { id: 'pixel-7', name: 'Pixel 7', category: 'phone', width: 412, height: 915, devicePixelRatio: 2.625 },
+  { id: 'galaxy-s20', name: 'Galaxy S20', category: 'phone', width: 360, height: 800, devicePixelRatio: 3 },
+  { id: 'ipad-mini', name: 'iPad Mini', category: 'tablet', width: 768, height: 1024, devicePixelRatio: 2 },
+  { id: 'ipad-air', name: 'iPad Air', category: 'tablet', width: 820, height: 1180, devicePixelRatio: 2 },
+  { id: 'ipad-pro', name: 'iPad Pro 12.9"', category: 'tablet', width: 1024, height: 1366, devicePixelRatio: 2 },
+  { id: 'laptop', name: 'Ноутбук', category: 'desktop', width: 1366, height: 768, devicePixelRatio: 1 },
+  { id: 'laptop-hidpi', name: 'Ноутбук HiDPI', category: 'desktop', width: 1440, height: 900, devicePixelRatio: 2 },
+  { id: 'desktop', name: 'Монитор Full HD', category: 'desktop', width: 1920, height: 1080, devicePixelRatio: 1 },
+];
+
+export const DEVICE_CATEGORIES: { category: DeviceCategory; label: string }[] = [
+  { category: 'phone', label: 'Телефоны' },
+  { category: 'tablet', label: 'Планшеты' },
+  { category: 'desktop', label: 'Компьютеры' },
+];
+
+export function createDevice(preset: DevicePreset): PreviewDevice {
+  // Desktops are naturally landscape, so their sizes are already listed that way.
+  return { preset: preset.id, width: preset.width, height: preset.height, landscape: false, zoom: 'fit', devicePixelRatio: preset.devicePixelRatio };
+}
+
+/** The viewport size with rotation applied. */
+export function getViewportSize(device: PreviewDevice): { width: number; height: number } {
+  return device.landscape ? { width: device.height, height: device.width } : { width: device.width, height: device.height };
+}
+
+/** The scale to draw the viewport at: the chosen zoom, or for 'fit' the largest up to 100% that fits `available`. */
+export function getDeviceScale(device: PreviewDevice, available: { width: number; height: number }): number {
+  if (device.zoom !== 'fit') return device.zoom / 100;
+  const { width, height } = getViewportSize(device);
+  if (available.width <= 0 || available.height <= 0) return 1;
+  return Math.min(1, available.width / width, available.height / height);
+}
+
+export function clampViewportSize(size: number): number {
+  return Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, Math.round(size) || MIN_VIEWPORT_SIZE));
+}
+
+/** Checks a stored device, dropping it if it's missing or malformed. */
+export function readDevice(value: unknown): PreviewDevice | null {
+  const device = value as PreviewDevice | null | undefined;
+  if (!device || typeof device.width !== 'number' || typeof device.height !== 'number') return null;
+  return {
+    preset: typeof device.preset === 'string' ? device.preset : CUSTOM_DEVICE,
+    width: clampViewportSize(device.width),
+    height: clampViewportSize(device.height),
+    landscape: !!device.landscape,
+    zoom: device.zoom === 'fit' || typeof device.zoom === 'number' ? device.zoom : 'fit',
+    devicePixelRatio: typeof device.devicePixelRatio === 'number' && device.devicePixelRatio > 0 ? device.devicePixelRatio : 1,
+  };
+}
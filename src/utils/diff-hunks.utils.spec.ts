@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { describeHunk, DiffHunk, mergeHunks } from './diff-hunks.utils';
+
+describe('mergeHunks', () => {
+  const original = 'a\nb\nc\nd';
+  const modified = 'a\nB\nc\nd\ne';
+  const hunks: DiffHunk[] = [
+    { originalStart: 2, originalEnd: 2, modifiedStart: 2, modifiedEnd: 2 },
+    { originalStart: 4, originalEnd: 0, modifiedStart: 5, modifiedEnd: 5 },
+  ];
+
+  it('gives the modified text when every hunk is accepted', () => {
+    expect(mergeHunks(original, modified, hunks, () => true)).toBe(modified);
+  });
+
+  it('gives the original text when every hunk is rejected', () => {
+    expect(mergeHunks(original, modified, hunks, () => false)).toBe(original);
+  });
+
+  it('takes only the accepted hunks', () => {
+    expect(mergeHunks(original, modified, hunks, index => index === 1)).toBe('a\nb\nc\nd\ne');
+    expect(mergeHunks(original, modified, hunks, index => index === 0)).toBe('a\nB\nc\nd');
+  });
+
+  it('removes deleted lines only when accepted', () => {
+    const deletion: DiffHunk[] = [{ originalStart: 2, originalEnd: 3, modifiedStart: 1, modifiedEnd: 0 }];
+    expect(mergeHunks(original, 'a\nd', deletion, () => true)).toBe('a\nd');
+    expect(mergeHunks(original, 'a\nd', deletion, () => false)).toBe(original);
+  });
+});
+
+describe('describeHunk', () => {
+  it('counts removed and added lines', () => {
+    expect(describeHunk({ originalStart: 2, originalEnd: 3, modifiedStart: 2, modifiedEnd: 6 })).toBe('строка 2: −2 +5');
+    expect(describeHunk({ originalStart: 4, originalEnd: 0, modifiedStart: 5, modifiedEnd: 5 })).toBe('строка 5: −0 +1');
+  });
+});
@@ -0,0 +1,40 @@
+// Blocks of changed lines between two versions of a file, as Monaco's diff editor reports them,
+// and putting a file together from the blocks that were accepted.
+
+/**
+ * A block of changed lines. Line numbers are 1-based and inclusive. A side without lines has an
+ * end of 0, and its start is then the line the block follows (0 for the start of the file).
+ */
+export interface DiffHunk {
+  originalStart: number;
+  originalEnd: number;
+  modifiedStart: number;
+  modifiedEnd: number;
+}
+
+/** Takes the modified lines of the accepted hunks and the original lines everywhere else. */
+export function mergeHunks(original: string, modified: string, hunks: DiffHunk[], isAccepted: (index: number) => boolean): string {
+  const originalLines = original.split('\n');
+  const modifiedLines = modified.split('\n');
+  const result: string[] = [];
+  let next = 0; // The first original line not yet copied.
+  hunks.forEach((hunk, index) => {
+    const [from, to] = hunk.originalEnd === 0 ? [hunk.originalStart, hunk.originalStart] : [hunk.originalStart - 1, hunk.originalEnd];
+    result.push(...originalLines.slice(next, from));
+    if (!isAccepted(index)) {
+      result.push(...originalLines.slice(from, to));
+    } else if (hunk.modifiedEnd !== 0) {
+      result.push(...modifiedLines.slice(hunk.modifiedStart - 1, hunk.modifiedEnd));
+    }
+    next = to;
+  });
+  result.push(...originalLines.slice(next));
+  return result.join('\n');
+}
+
+/** A short description of a hunk's place and size ("строка 12: −2 +5"). */
+export function describeHunk(hunk: DiffHunk): string {
+  const removed = hunk.originalEnd === 0 ? 0 : hunk.originalEnd - hunk.originalStart + 1;
+  const added = hunk.modifiedEnd === 0 ? 0 : hunk.modifiedEnd - hunk.modifiedStart + 1;
+  return `строка ${Math.max(hunk.modifiedStart, 1)}: −${removed} +${added}`;
+}
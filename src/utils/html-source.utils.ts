@@ -0,0 +1,87 @@
+// Source positions for the preview's element picker: the start tags of a page are marked with
+// their position in the HTML file, so an element picked in the preview can be found in the editor.
+
+export const SOURCE_POSITION_ATTRIBUTE = 'data-preview-loc';
+
+// Elements whose content is text rather than markup, so tags inside it must not be marked.
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title'];
+const START_TAG = /<([a-zA-Z][\w-]*)/y;
+
+/**
+ * Adds `data-preview-loc="line:column"` (1-based) to every start tag except scripts, which the
+ * preview rewrites anyway. Comments and the content of raw text elements are left untouched.
+ */
+export function annotateSourcePositions(html: string): string {
+  const lower = html.toLowerCase();
+  const parts: string[] = [];
+  let copied = 0;
+  let line = 1;
+  let lineStart = 0;
+  let counted = 0;
+  const positionOf = (index: number) => {
+    for (; counted < index; counted++) {
+      if (html[counted] === '\n') {
+        line++;
+        lineStart = counted + 1;
+      }
+    }
+    return `${line}:${index - lineStart + 1}`;
+  };
+
+  let index = html.indexOf('<');
+  while (index !== -1) {
+    if (html.startsWith('<!--', index)) {
+      const end = html.indexOf('-->', index + 4);
+      if (end === -1) break;
+      index = html.indexOf('<', end + 3);
+      continue;
+    }
+    START_TAG.lastIndex = index;
+    const tag = START_TAG.exec(html);
+    if (!tag) { // End tags, doctype and stray `<`.
+      index = html.indexOf('<', index + 1);
+      continue;
+    }
+    const name = tag[1].toLowerCase();
+    const end = findTagEnd(html, index + tag[0].length);
+    if (end === -1) break;
+    if (name !== 'script') {
+      const insertAt = html[end - 1] === '/' ? end - 1 : end;
+      parts.push(html.slice(copied, insertAt), ` ${SOURCE_POSITION_ATTRIBUTE}="${positionOf(index)}"`);
+      copied = insertAt;
+    }
+    let next = end + 1;
+    if (RAW_TEXT_ELEMENTS.includes(name)) {
+      const close = lower.indexOf(`</${name}`, next);
+      if (close === -1) break;
+      next = close;
+    }
+    index = html.indexOf('<', next);
+  }
+  parts.push(html.slice(copied));
+  return parts.join('');
+}
+
+/** Parses a `data-preview-loc` value. */
+export function parseSourcePosition(value: string | null | undefined): { line: number; column: number } | null {
+  const match = value?.match(/^(\d+):(\d+)$/);
+  return match ? { line: Number(match[1]), column: Number(match[2]) } : null;
+}
+
+/** Index of the `>` ending a start tag whose attributes begin at `from`, skipping quoted attribute values. */
+function findTagEnd(html: string, from: number): number {
+  let quote: string | null = null;
+  let previous = '';
+  for (let i = from; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && previous === '=') {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+    if (!/\s/.test(char)) previous = char;
+  }
+  return -1;
+}
@@ -0,0 +1,82 @@
+// Mock responses for requests made by the preview, read from `mocks.json` in the project root:
+//
+//   [
+//     { "method": "GET", "url": "/api/users/*", "status": 200, "body": [{ "id": 1 }], "delay": 300 }
+//   ]
+//
+// `url` is a path (matched against the request's path and query) or a full URL, where `*` matches
+// any run of characters. `body` is sent as-is if it's a string and as JSON otherwise.
+
+export const MOCKS_FILE = 'mocks.json';
+
+export interface MockRule {
+  /** HTTP method to match; any method if omitted. */
+  method?: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  /** Milliseconds to wait before responding. */
+  delay: number;
+}
+
+export const MOCKS_TEMPLATE = `[
+  {
+    "method": "GET",
+    "url": "/api/users",
+    "status": 200,
+    "body": [{ "id": 1, "name": "Анна" }, { "id": 2, "name": "Борис" }],
+    "delay": 300
+  }
+]
+`;
+
+/** Parses the mocks file; `error` describes the first problem found, in which case there are no rules. */
+export function parseMocks(content: string): { rules: MockRule[]; error: string | null } {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    return { rules: [], error: `Некорректный JSON: ${e instanceof Error ? e.message : e}` };
+  }
+  if (!Array.isArray(data)) {
+    return { rules: [], error: 'Ожидается массив правил.' };
+  }
+
+  const rules: MockRule[] = [];
+  for (const [index, item] of data.entries()) {
+    if (!item || typeof item !== 'object' || typeof item.url !== 'string' || !item.url) {
+      return { rules: [], error: `Правило ${index + 1}: поле "url" обязательно.` };
+    }
+    const isText = typeof item.body === 'string';
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(item.headers ?? {})) {
+      headers[name.toLowerCase()] = String(value);
+    }
+    if (!isText && item.body !== undefined && !('content-type' in headers)) {
+      headers['content-type'] = 'application/json';
+    }
+    rules.push({
+      method: typeof item.method === 'string' ? item.method.toUpperCase() : undefined,
+      url: isAbsoluteUrl(item.url) || item.url.startsWith('/') ? item.url : `/${item.url}`,
+      status: Number.isInteger(item.status) && item.status >= 200 && item.status <= 599 ? item.status : 200,
+      headers,
+      body: isText ? item.body : item.body === undefined ? '' : JSON.stringify(item.body, null, 2),
+      delay: typeof item.delay === 'number' && item.delay > 0 ? item.delay : 0,
+    });
+  }
+  return { rules, error: null };
+}
+
+/**
+ * Regular expression source matching the URLs of a rule: full URLs for absolute rules, otherwise
+ * path and query. Rules without a query match the path with any query.
+ */
+export function getMockPattern(rule: MockRule): string {
+  const source = rule.url.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return rule.url.includes('?') ? `^${source}$` : `^${source}(\\?.*)?$`;
+}
+
+export function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { linkModules, toUnlinkedPosition } from './modules.utils';
+
+describe('linkModules', () => {
+  const sources = new Map([
+    ['main.js', "import { a } from './lib/a.js';\nimport { b } from 'b';"],
+    ['lib/a.js', "import './c';"],
+    ['lib/c.ts', 'export {};'],
+    ['vendor/b.js', 'export const b = 1;'],
+  ]);
+
+  it('rewrites project imports and links every module they reach', () => {
+    const linked = linkModules([{ path: 'index.html', code: "import './main.js';" }], sources, { imports: { b: './vendor/b.js' } }, 'index.html');
+    expect(linked.entries.map(e => e.code)).toEqual(["import 'project:/main.js';"]);
+    expect(Object.fromEntries([...linked.modules].map(([path, m]) => [path, m.code]))).toEqual({
+      'main.js': "import { a } from 'project:/lib/a.js';\nimport { b } from 'project:/vendor/b.js';",
+      'lib/a.js': "import 'project:/lib/c.ts';",
+      'lib/c.ts': 'export {};',
+      'vendor/b.js': 'export const b = 1;',
+    });
+    expect(linked.errors).toEqual([]);
+  });
+
+  it('reports unresolved imports at their position in the page', () => {
+    const code = "\nimport 'missing';\nimport './gone.js';";
+    const { errors } = linkModules([{ path: 'index.html', code, firstLine: 10, firstColumn: 25 }], sources, {}, 'index.html');
+    expect(errors.map(e => [e.line, e.column]).sort()).toEqual([[11, 9], [12, 9]]);
+  });
+
+  it('leaves URLs and import map entries pointing at URLs to the browser', () => {
+    const code = "import 'https://cdn.test/x.js';\nimport 'y';";
+    const linked = linkModules([{ path: 'index.html', code }], sources, { imports: { y: 'https://cdn.test/y.js' } }, 'index.html');
+    expect(linked.entries[0]).toEqual({ code, edits: [] });
+    expect(linked.errors).toEqual([]);
+  });
+});
+
+describe('toUnlinkedPosition', () => {
+  const original = "import { a } from './a.js'; import { b } from './b.js'; foo();\nbar();";
+  const sources = new Map([['main.js', original], ['a.js', ''], ['b.js', '']]);
+  const { code, edits } = linkModules([{ path: 'main.js', code: original }], sources, {}, 'index.html').entries[0];
+
+  it('maps columns after rewritten specifiers back to the original line', () => {
+    expect(toUnlinkedPosition(edits, 1, code.indexOf('foo') + 1)).toEqual({ line: 1, column: original.indexOf('foo') + 1 });
+    expect(toUnlinkedPosition(edits, 1, code.indexOf('import { b }') + 1)).toEqual({ line: 1, column: original.indexOf('import { b }') + 1 });
+  });
+
+  it('maps positions inside a rewritten specifier to the start of the original one', () => {
+    expect(toUnlinkedPosition(edits, 1, code.indexOf('project:/b.js') + 5)).toEqual({ line: 1, column: original.indexOf('./b.js') + 1 });
+  });
+
+  it('leaves lines without rewritten specifiers alone', () => {
+    expect(toUnlinkedPosition(edits, 2, 3)).toEqual({ line: 2, column: 3 });
+  });
+});
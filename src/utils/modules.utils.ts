@@ -0,0 +1,178 @@
+import { FileReference, findImportSpecifiers } from './references.utils';
+import { dirname, resolvePath } from './path.utils';
+
+// Links ES modules of a project for the preview. Every import that points at a project file is
+// rewritten to a stable `project:/<path>` specifier, which the page's import map then maps to the
+// module's blob URL. Because modules only ever name each other by path, cycles need no special care.
+// The rewritten specifiers are recorded, so positions in the linked code can be mapped back.
+
+export interface ImportMap {
+  imports?: Record<string, string>;
+  scopes?: Record<string, Record<string, string>>;
+}
+
+export interface ModuleSource {
+  /** File the code belongs to; relative imports resolve from here. */
+  path: string;
+  code: string;
+  /** Line and column of the file the code starts at, for scripts inlined in HTML. */
+  firstLine?: number;
+  firstColumn?: number;
+}
+
+export interface ModuleError {
+  path: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+/** A specifier rewritten by linking, which moved everything after it on its line by `shift` columns. */
+export interface SpecifierEdit {
+  line: number;
+  /** Columns of the new specifier in the linked code, 1-based; `end` is just past it. */
+  start: number;
+  end: number;
+  shift: number;
+}
+
+export interface LinkedModule {
+  code: string;
+  /** Rewritten specifiers in source order. */
+  edits: SpecifierEdit[];
+}
+
+export interface LinkedModules {
+  /** The entry scripts with their imports rewritten, in the order they were given. */
+  entries: LinkedModule[];
+  /** Rewritten code of every project module reachable from the entries, by path. */
+  modules: Map<string, LinkedModule>;
+  errors: ModuleError[];
+}
+
+const SCRIPT_EXTENSIONS = ['js', 'mjs', 'ts'];
+
+export function toModuleSpecifier(path: string): string {
+  return `project:/${path}`;
+}
+
+/**
+ * Rewrites the imports of `entries` and of every project module they reach.
+ * `sources` holds the runnable code of each script file (compiled output for TypeScript);
+ * `importMap` is the page's own import map, whose values resolve from `pagePath`.
+ */
+export function linkModules(entries: ModuleSource[], sources: ReadonlyMap<string, string>, importMap: ImportMap, pagePath: string): LinkedModules {
+  const modules = new Map<string, LinkedModule>();
+  const errors: ModuleError[] = [];
+  const queue: string[] = [];
+
+  const link = (source: ModuleSource): LinkedModule => {
+    let code = source.code;
+    const replaced: FileReference[] = [];
+    for (const reference of findImportSpecifiers(source.code).reverse()) {
+      const specifier = reference.specifier;
+      const target = resolveModule(specifier, source.path, sources, importMap, pagePath);
+      if (target === undefined) continue; // External URL or mapped to one by the import map.
+      if (target === null) {
+        const { line, column } = getPosition(source.code, reference.start);
+        const isBare = !/^(\.{0,2}\/)/.test(specifier);
+        errors.push({
+          path: source.path,
+          line: line + (source.firstLine ?? 1) - 1,
+          column: line === 1 ? column + (source.firstColumn ?? 1) - 1 : column,
+          message: isBare
+            ? `Не удалось разрешить модуль "${specifier}", импортированный из ${source.path}. Добавьте его в import map.`
+            : `Модуль "${specifier}", импортированный из ${source.path}, не найден в проекте.`,
+        });
+        continue;
+      }
+      if (!modules.has(target) && !queue.includes(target)) {
+        queue.push(target);
+      }
+      code = code.slice(0, reference.start) + toModuleSpecifier(target) + code.slice(reference.end);
+      replaced.push({ ...reference, specifier: toModuleSpecifier(target) });
+    }
+    return { code, edits: getSpecifierEdits(source.code, replaced.reverse()) };
+  };
+
+  const linkedEntries = entries.map(link);
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    modules.set(path, { code: '', edits: [] }); // Reserve the slot so cyclic imports aren't queued again.
+    modules.set(path, link({ path, code: sources.get(path) ?? '' }));
+  }
+  return { entries: linkedEntries, modules, errors };
+}
+
+/**
+ * Maps a 1-based position in linked code back to the code before linking. Positions inside a
+ * rewritten specifier map to where the original one starts.
+ */
+export function toUnlinkedPosition(edits: readonly SpecifierEdit[], line: number, column: number): { line: number; column: number } {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.line !== line || edit.start > column) continue;
+    if (column < edit.end) return { line, column: edit.start - shift };
+    shift += edit.shift;
+  }
+  return { line, column: column - shift };
+}
+
+/**
+ * Resolves an import specifier to a project module path. Returns undefined for specifiers the
+ * browser resolves on its own (URLs, import map entries pointing at URLs) and null if it can't be resolved.
+ */
+function resolveModule(specifier: string, fromPath: string, sources: ReadonlyMap<string, string>, importMap: ImportMap, pagePath: string): string | null | undefined {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(specifier) || specifier.startsWith('//')) return undefined;
+  if (/^(\.{0,2}\/)/.test(specifier)) {
+    return findModule(resolvePath(dirname(fromPath), specifier.replace(/[?#].*$/, '')), sources);
+  }
+
+  const mapped = lookupImportMap(specifier, importMap.imports ?? {});
+  if (mapped === null) return null;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(mapped) || mapped.startsWith('//')) return undefined;
+  return findModule(resolvePath(dirname(pagePath), mapped.replace(/[?#].*$/, '')), sources);
+}
+
+/** Applies import map `imports`: an exact key match, or the longest matching prefix key ending in '/'. */
+function lookupImportMap(specifier: string, imports: Record<string, string>): string | null {
+  if (specifier in imports) return imports[specifier];
+  const prefix = Object.keys(imports)
+    .filter(key => key.endsWith('/') && specifier.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? imports[prefix] + specifier.slice(prefix.length) : null;
+}
+
+/** Finds the script for a resolved path, allowing extensionless imports and `.js` imports of `.ts` files. */
+function findModule(path: string | null, sources: ReadonlyMap<string, string>): string | null {
+  if (!path) return null;
+  if (sources.has(path)) return path;
+  const stem = path.replace(/\.js$/, '');
+  return SCRIPT_EXTENSIONS.map(ext => `${stem}.${ext}`).find(candidate => sources.has(candidate)) ?? null;
+}
+
+// `replaced` holds the original references, in source order, with their new specifiers. Specifiers
+// never span lines, so only columns move.
+function getSpecifierEdits(code: string, replaced: FileReference[]): SpecifierEdit[] {
+  const edits: SpecifierEdit[] = [];
+  let line = 0;
+  let lineShift = 0;
+  for (const reference of replaced) {
+    const position = getPosition(code, reference.start);
+    if (position.line !== line) {
+      line = position.line;
+      lineShift = 0;
+    }
+    const start = position.column + lineShift;
+    const shift = reference.specifier.length - (reference.end - reference.start);
+    edits.push({ line, start, end: start + reference.specifier.length, shift });
+    lineShift += shift;
+  }
+  return edits;
+}
+
+function getPosition(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { readPartialJsonObject } from './partial-json.utils';
+
+describe('readPartialJsonObject', () => {
+  it('reads a whole object', () => {
+    expect(readPartialJsonObject('{"a": "1", "b": "x\\ny"}')).toEqual({ complete: { a: '1', b: 'x\ny' }, pending: null, closed: true });
+  });
+
+  it('returns the field still arriving as pending', () => {
+    expect(readPartialJsonObject('{"a": "1", "b": "hal')).toEqual({ complete: { a: '1' }, pending: { key: 'b', value: 'hal' }, closed: false });
+  });
+
+  it('stops before an escape cut off mid-way', () => {
+    expect(readPartialJsonObject('{"a": "x\\u00')).toEqual({ complete: {}, pending: { key: 'a', value: 'x' }, closed: false });
+  });
+
+  it('waits for a key or value that has not arrived', () => {
+    expect(readPartialJsonObject('')).toEqual({ complete: {}, pending: null, closed: false });
+    expect(readPartialJsonObject('{"a": "1", "b')).toEqual({ complete: { a: '1' }, pending: null, closed: false });
+  });
+
+  it('stops at a field that is not a string', () => {
+    expect(readPartialJsonObject('{"a": "1", "n": 2, "b": "3"}')).toEqual({ complete: { a: '1' }, pending: null, closed: false });
+  });
+});
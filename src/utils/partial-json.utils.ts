@@ -0,0 +1,68 @@
+// Reading a JSON object while it's still streaming in, e.g. a structured AI response.
+
+/** The string fields of a JSON object that has arrived in part. */
+export interface PartialJsonObject {
+  /** Fields whose values have arrived in full. */
+  complete: Record<string, string>;
+  /** The field whose value is still arriving, with as much of it as has arrived. */
+  pending: { key: string; value: string } | null;
+  /** The closing brace has arrived. */
+  closed: boolean;
+}
+
+/**
+ * Reads the string fields from the start of a JSON object's text. Reading stops at the first
+ * thing that isn't a string field, as only flat objects of strings are expected.
+ */
+export function readPartialJsonObject(text: string): PartialJsonObject {
+  const result: PartialJsonObject = { complete: {}, pending: null, closed: false };
+  let index = skipWhitespace(text, 0);
+  if (text[index] !== '{') return result;
+  index++;
+  for (;;) {
+    index = skipWhitespace(text, index);
+    if (text[index] === '}') {
+      result.closed = true;
+      return result;
+    }
+    if (text[index] === ',') index = skipWhitespace(text, index + 1);
+    const key = readString(text, index);
+    if (!key?.closed) return result;
+    index = skipWhitespace(text, key.end);
+    if (text[index] !== ':') return result;
+    const value = readString(text, skipWhitespace(text, index + 1));
+    if (!value) return result;
+    if (!value.closed) {
+      result.pending = { key: key.value, value: value.value };
+      return result;
+    }
+    result.complete[key.value] = value.value;
+    index = value.end;
+  }
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+}
+
+/** Reads a JSON string starting at `start`; an unterminated one is read up to its last whole character. */
+function readString(text: string, start: number): { value: string; closed: boolean; end: number } | null {
+  if (text[start] !== '"') return null;
+  let index = start + 1;
+  while (index < text.length && text[index] !== '"') {
+    if (text[index] !== '\\') {
+      index++;
+      continue;
+    }
+    const length = text[index + 1] === 'u' ? 6 : 2;
+    if (index + length > text.length) break; // An escape cut off mid-way.
+    index += length;
+  }
+  const closed = text[index] === '"';
+  try {
+    return { value: JSON.parse(`"${text.slice(start + 1, Math.min(index, text.length))}"`), closed, end: closed ? index + 1 : index };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+// Helpers for the editor's virtual file system. Paths are always relative to the
+// project root, use '/' as the separator and never start or end with a slash.
+
+/**
+ * Normalizes a user-entered path ("./css//style.css" -> "css/style.css").
+ * Returns null if the path is empty or tries to escape the project root.
+ */
+export function normalizePath(path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    const trimmed = segment.trim();
+    if (!trimmed || trimmed === '.') continue;
+    if (trimmed === '..') return null;
+    segments.push(trimmed);
+  }
+  return segments.length > 0 ? segments.join('/') : null;
+}
+
+export function joinPath(...parts: string[]): string {
+  return parts.filter(Boolean).join('/');
+}
+
+export function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/** Returns the parent folder of a path, or '' for items in the project root. */
+export function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+export function getExtension(path: string): string {
+  const name = basename(path);
+  const index = name.lastIndexOf('.');
+  return index <= 0 ? '' : name.slice(index + 1).toLowerCase();
+}
+
+/** True if `path` is `folder` itself or lives somewhere inside it. */
+export function isInFolder(path: string, folder: string): boolean {
+  if (!folder) return true;
+  return path === folder || path.startsWith(`${folder}/`);
+}
+
+/** Lists every ancestor folder of a path, outermost first ("a/b/c.js" -> ["a", "a/b"]). */
+export function getParentFolders(path: string): string[] {
+  const parents: string[] = [];
+  let current = dirname(path);
+  while (current) {
+    parents.unshift(current);
+    current = dirname(current);
+  }
+  return parents;
+}
+
+/** Re-roots `path` from `fromFolder` to `toFolder`, keeping the part below `fromFolder`. */
+export function rebasePath(path: string, fromFolder: string, toFolder: string): string {
+  const relative = fromFolder ? path.slice(fromFolder.length + 1) : path;
+  return path === fromFolder ? toFolder : joinPath(toFolder, relative);
+}
+
+/**
+ * Resolves a relative reference (e.g. "../img/logo.png") against a folder.
+ * A leading '/' resolves from the project root. Returns null if the result leaves the root.
+ */
+export function resolvePath(fromFolder: string, reference: string): string | null {
+  const segments = reference.startsWith('/') ? [] : fromFolder.split('/').filter(Boolean);
+  for (const segment of reference.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.length > 0 ? segments.join('/') : null;
+}
+
+/** Builds the relative reference from a folder to a path ("a/b", "a/c/d.js" -> "../c/d.js"). */
+export function relativePath(fromFolder: string, toPath: string): string {
+  const from = fromFolder.split('/').filter(Boolean);
+  const to = toPath.split('/').filter(Boolean);
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}
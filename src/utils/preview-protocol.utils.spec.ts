@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { PREVIEW_PROTOCOL, PREVIEW_PROTOCOL_VERSION, readPreviewMessage } from './preview-protocol.utils';
+
+describe('readPreviewMessage', () => {
+  const evalResult = (value: unknown) => ({ protocol: PREVIEW_PROTOCOL, version: PREVIEW_PROTOCOL_VERSION, type: 'EVAL_RESULT', payload: { id: 1, ok: true, value } });
+
+  it('accepts well-formed remote values', () => {
+    const values = [
+      { type: 'undefined' },
+      { type: 'number', value: NaN, description: 'NaN' },
+      { type: 'bigint', value: '1' },
+      { type: 'function', id: 2, description: 'ƒ f()' },
+      {
+        type: 'object', id: 3, subtype: 'map', className: 'Map', description: 'Map(1)',
+        preview: { entries: [{ name: '0', key: { type: 'string', value: 'a' }, value: { type: 'null' } }], overflow: false },
+      },
+      { type: 'object', id: 4, subtype: null, className: 'Object', description: 'Object' },
+    ];
+    for (const value of values) {
+      expect(readPreviewMessage(evalResult(value))).toEqual({ type: 'EVAL_RESULT', payload: { id: 1, ok: true, value } });
+    }
+  });
+
+  it('drops remote values missing a field the console reads, or with one of the wrong type', () => {
+    const values = [
+      { type: 'number', value: 1 },
+      { type: 'number', value: '1', description: '1' },
+      { type: 'boolean', value: 'true' },
+      { type: 'symbol' },
+      { type: 'object', id: 3, subtype: null, description: 'Object' },
+      { type: 'object', id: 3, subtype: 'weird', className: 'Object', description: 'Object' },
+      { type: 'object', id: 3, subtype: null, className: 'Object', description: 'Object', preview: { entries: [{ name: '0', value: { type: 'string' } }], overflow: false } },
+      { type: 'window' },
+    ];
+    for (const value of values) {
+      expect(readPreviewMessage(evalResult(value))).toBeNull();
+    }
+  });
+
+  it('drops messages of another protocol version', () => {
+    expect(readPreviewMessage({ ...evalResult({ type: 'null' }), version: PREVIEW_PROTOCOL_VERSION + 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+// Messages between the editor and the preview runtime. Every message travels in an envelope naming
+// the protocol and its version. The preview runs whatever code the project holds, so messages from
+// it are validated before the editor acts on them; anything malformed or unknown is dropped.
+
+import { ConsoleLog, ConsoleTable } from '../components/console/console.component';
+import { NetworkRequest } from '../components/network-panel/network-panel.component';
+import { InspectedElement } from '../components/element-inspector/element-inspector.component';
+import { RemoteObjectSubtype, RemoteProperty, RemoteValue } from './remote-value.utils';
+
+export const PREVIEW_PROTOCOL = 'ai-code-editor-preview';
+/** Bumped on incompatible changes; the runtime is built by the same editor, so only this version is accepted. */
+export const PREVIEW_PROTOCOL_VERSION = 1;
+
+/** A position in a script the preview ran, as the browser reports it. */
+export interface ScriptLocation {
+  url: string;
+  line: number;
+  column: number;
+}
+
+/** Messages the preview sends to the editor. */
+export type PreviewMessage =
+  | { type: 'CONSOLE_LOG'; payload: { type: ConsoleLog['type']; data: RemoteValue[]; table?: ConsoleTable; location?: ScriptLocation; timestamp: string } }
+  | { type: 'CONSOLE_CLEAR' }
+  | { type: 'NETWORK_REQUEST'; payload: NetworkRequest }
+  | { type: 'NETWORK_RESPONSE'; payload: Pick<NetworkRequest, 'id' | 'duration'> & Partial<NetworkRequest> }
+  | { type: 'NAVIGATE'; payload: { href: string } }
+  | { type: 'EVAL_RESULT'; payload: { id: number; ok: boolean; value: RemoteValue } }
+  | { type: 'COMPLETIONS'; payload: { id: number; items: string[] } }
+  | { type: 'PROPERTIES'; payload: { id: number; properties: RemoteProperty[] } }
+  | { type: 'ELEMENT_SELECTED'; payload: Omit<InspectedElement, 'page'> }
+  | { type: 'INSPECT_CANCELLED' }
+  /** Sent by the detached preview window itself when it's closed. */
+  | { type: 'PREVIEW_WINDOW_CLOSED' };
+
+/** Messages the editor sends to the preview. */
+export type EditorMessage =
+  | { type: 'EVAL'; payload: { id: number; code: string } }
+  | { type: 'COMPLETE'; payload: { id: number; expression: string } }
+  | { type: 'GET_PROPERTIES'; payload: { id: number; objectId: number } }
+  | { type: 'RELEASE_OBJECTS' }
+  | { type: 'UPDATE_STYLES'; payload: { styles: { source: string; css: string }[] } }
+  | { type: 'SET_INSPECT'; payload: { enabled: boolean } };
+
+export type PreviewEnvelope<T> = T & { protocol: typeof PREVIEW_PROTOCOL; version: number };
+
+export function wrapMessage<T extends EditorMessage | PreviewMessage>(message: T): PreviewEnvelope<T> {
+  return { ...message, protocol: PREVIEW_PROTOCOL, version: PREVIEW_PROTOCOL_VERSION };
+}
+
+/** Unwraps and validates a message from the preview; null if it isn't a well-formed message of this protocol version. */
+export function readPreviewMessage(data: unknown): PreviewMessage | null {
+  if (!isObject(data) || data['protocol'] !== PREVIEW_PROTOCOL || data['version'] !== PREVIEW_PROTOCOL_VERSION) return null;
+  const type = data['type'];
+  if (typeof type !== 'string' || !Object.hasOwn(PAYLOAD_VALIDATORS, type)) return null;
+  const validate = PAYLOAD_VALIDATORS[type as PreviewMessage['type']];
+  if (!validate(data['payload'])) return null;
+  return { type, payload: data['payload'] } as PreviewMessage;
+}
+
+type Validator = (value: unknown) => boolean;
+
+const CONSOLE_TYPES: ConsoleLog['type'][] = ['log', 'warn', 'error', 'info', 'debug', 'group', 'groupCollapsed', 'groupEnd', 'table'];
+const REMOTE_SUBTYPES: RemoteObjectSubtype[] = ['array', 'map', 'set', 'error', 'date', 'regexp', 'node', 'promise'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isString: Validator = value => typeof value === 'string';
+const isNumber: Validator = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Validator = value => typeof value === 'boolean';
+const isAbsent: Validator = value => value === undefined;
+const optional = (validate: Validator): Validator => value => value === undefined || validate(value);
+const nullable = (validate: Validator): Validator => value => value === null || validate(value);
+const arrayOf = (validate: Validator): Validator => value => Array.isArray(value) && value.every(validate);
+const recordOf = (validate: Validator): Validator => value => isObject(value) && Object.values(value).every(validate);
+const shape = (fields: Record<string, Validator>): Validator => value => isObject(value) && Object.entries(fields).every(([name, validate]) => validate(value[name]));
+
+// Every field of each kind of remote value is checked, as displaying and expanding them relies on all of them.
+function isRemoteValue(value: unknown): boolean {
+  if (!isObject(value) || typeof value['type'] !== 'string' || !Object.hasOwn(REMOTE_VALUE_FIELDS, value['type'])) return false;
+  return shape(REMOTE_VALUE_FIELDS[value['type'] as RemoteValue['type']])(value);
+}
+const isRemoteProperty = shape({ name: isString, value: isRemoteValue, key: optional(isRemoteValue) });
+// NaN and the infinities are numbers too, and are logged like any other.
+const isAnyNumber: Validator = value => typeof value === 'number';
+
+const REMOTE_VALUE_FIELDS: Record<RemoteValue['type'], Record<string, Validator>> = {
+  undefined: {},
+  null: {},
+  boolean: { value: isBoolean },
+  number: { value: isAnyNumber, description: isString },
+  string: { value: isString },
+  bigint: { value: isString },
+  symbol: { value: isString },
+  function: { id: isNumber, description: isString },
+  object: {
+    id: isNumber,
+    subtype: nullable(value => REMOTE_SUBTYPES.includes(value as RemoteObjectSubtype)),
+    className: isString,
+    description: isString,
+    preview: optional(shape({ entries: arrayOf(isRemoteProperty), overflow: isBoolean })),
+  },
+};
+const isPosition = shape({ line: isNumber, column: isNumber });
+const isHeaders = recordOf(isString);
+
+const PAYLOAD_VALIDATORS: Record<PreviewMessage['type'], Validator> = {
+  CONSOLE_LOG: shape({
+    type: value => CONSOLE_TYPES.includes(value as ConsoleLog['type']),
+    data: arrayOf(isRemoteValue),
+    table: optional(shape({
+      columns: arrayOf(isString),
+      rows: arrayOf(shape({ index: isString, cells: recordOf(isRemoteValue) })),
+    })),
+    location: optional(shape({ url: isString, line: isNumber, column: isNumber })),
+    timestamp: isString,
+  }),
+  CONSOLE_CLEAR: isAbsent,
+  NETWORK_REQUEST: shape({
+    id: isString,
+    kind: value => value === 'fetch' || value === 'xhr',
+    method: isString,
+    url: isString,
+    requestHeaders: isHeaders,
+    requestBody: nullable(isString),
+    mocked: isBoolean,
+    startTime: isNumber,
+  }),
+  NETWORK_RESPONSE: shape({
+    id: isString,
+    duration: isNumber,
+    status: optional(isNumber),
+    statusText: optional(isString),
+    responseHeaders: optional(isHeaders),
+    responseBody: optional(nullable(isString)),
+    error: optional(isString),
+  }),
+  NAVIGATE: shape({ href: isString }),
+  EVAL_RESULT: shape({ id: isNumber, ok: isBoolean, value: isRemoteValue }),
+  COMPLETIONS: shape({ id: isNumber, items: arrayOf(isString) }),
+  PROPERTIES: shape({ id: isNumber, properties: arrayOf(isRemoteProperty) }),
+  ELEMENT_SELECTED: shape({
+    description: isString,
+    width: isNumber,
+    height: isNumber,
+    location: nullable(isPosition),
+    exact: isBoolean,
+    styles: arrayOf(value => Array.isArray(value) && value.length === 2 && value.every(isString)),
+    rules: arrayOf(shape({
+      selector: isString,
+      declarations: isString,
+      media: nullable(isString),
+      file: nullable(isString),
+      position: nullable(isPosition),
+    })),
+  }),
+  INSPECT_CANCELLED: isAbsent,
+  PREVIEW_WINDOW_CLOSED: isAbsent,
+};
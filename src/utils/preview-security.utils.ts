@@ -0,0 +1,55 @@
+// Isolation of the preview from the editor. The preview runs in a sandboxed iframe: without
+// `allow-same-origin` its page gets an opaque origin, so the project's code can't read the editor's
+// localStorage (where the API key is kept) or reach into the editor's window.
+
+export interface PreviewSecurity {
+  /** Tokens of the iframe `sandbox` attribute. */
+  sandbox: string[];
+  /** Content-Security-Policy applied to the preview page; empty for none. */
+  csp: string;
+}
+
+export interface SandboxPermission {
+  token: string;
+  label: string;
+  /** Why turning the permission on weakens the isolation, if it does. */
+  warning?: string;
+}
+
+export const SANDBOX_PERMISSIONS: SandboxPermission[] = [
+  { token: 'allow-scripts', label: 'Выполнение скриптов' },
+  { token: 'allow-forms', label: 'Отправка форм' },
+  { token: 'allow-modals', label: 'alert, confirm и prompt' },
+  { token: 'allow-popups', label: 'Открытие новых окон' },
+  { token: 'allow-downloads', label: 'Скачивание файлов' },
+  { token: 'allow-pointer-lock', label: 'Захват указателя' },
+  { token: 'allow-presentation', label: 'Presentation API' },
+  { token: 'allow-top-navigation-by-user-activation', label: 'Переход редактора по клику в предпросмотре', warning: 'Страница сможет увести редактор на другой адрес.' },
+  { token: 'allow-same-origin', label: 'Общий origin с редактором', warning: 'Код проекта получит доступ к хранилищу редактора, включая API ключ.' },
+];
+
+export const DEFAULT_PREVIEW_SECURITY: PreviewSecurity = {
+  sandbox: ['allow-scripts', 'allow-forms', 'allow-modals', 'allow-popups', 'allow-downloads'],
+  csp: '',
+};
+
+/**
+ * A policy for pages that shouldn't talk to the network: scripts, styles and assets only from the
+ * project itself (which the preview serves as data: URLs) and inline.
+ */
+export const RECOMMENDED_PREVIEW_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' data:; style-src 'unsafe-inline' data:; img-src data: blob:; font-src data:; media-src data: blob:; connect-src 'none'; form-action 'none'";
+
+/** Whether the preview page gets an origin of its own rather than the editor's. */
+export function isIsolated(security: PreviewSecurity): boolean {
+  return !security.sandbox.includes('allow-same-origin');
+}
+
+/** Checks stored settings, falling back to the defaults for anything missing or malformed. */
+export function readPreviewSecurity(value: unknown): PreviewSecurity {
+  const security = value as Partial<PreviewSecurity> | null | undefined;
+  const known = new Set(SANDBOX_PERMISSIONS.map(p => p.token));
+  return {
+    sandbox: Array.isArray(security?.sandbox) ? security.sandbox.filter(token => known.has(token)) : [...DEFAULT_PREVIEW_SECURITY.sandbox],
+    csp: typeof security?.csp === 'string' ? security.csp : DEFAULT_PREVIEW_SECURITY.csp,
+  };
+}
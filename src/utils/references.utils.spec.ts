@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { findReferences, updateReferences } from './references.utils';
+
+describe('findReferences', () => {
+  it('finds local references in markup and its styles, skipping external ones', () => {
+    const html = '<link href="css/style.css"><script src="https://cdn.test/lib.js"></script><div style="background: url(img/a.png)"></div><a href="#top"></a>';
+    expect(findReferences(html, 'html').map(r => [r.kind, r.specifier])).toEqual([
+      ['html', 'css/style.css'],
+      ['css', 'img/a.png'],
+    ]);
+  });
+
+  it('skips bare imports in scripts', () => {
+    const js = "import a from './a.js';\nimport lodash from 'lodash';\nconst b = await import('../b');";
+    expect(findReferences(js, 'js').map(r => r.specifier)).toEqual(['./a.js', '../b']);
+  });
+
+  it('finds imports in inline scripts with offsets in the whole file', () => {
+    const html = "<p>x</p>\n<script type=\"module\">\n  import { x } from './utils.js';\n</script>";
+    const [reference] = findReferences(html, 'html');
+    expect(reference).toMatchObject({ kind: 'js', specifier: './utils.js' });
+    expect(html.slice(reference.start, reference.end)).toBe('./utils.js');
+  });
+
+  it('leaves scripts that hold no JavaScript alone', () => {
+    const html = "<script type=\"text/template\">import a from './a.js'</script><script type=\"importmap\">{}</script>";
+    expect(findReferences(html, 'html')).toEqual([]);
+  });
+});
+
+describe('updateReferences', () => {
+  const files = [
+    { name: 'index.html', content: '<script type="module">import { x } from \'./js/utils.js\';</script><script src="js/main.js"></script>', language: 'html' },
+    { name: 'js/main.js', content: "import { x } from './utils';\nimport { y } from '../lib/y.js';", language: 'js' },
+    { name: 'js/utils.js', content: 'export const x = 1;', language: 'js' },
+    { name: 'lib/y.js', content: 'export const y = 2;', language: 'js' },
+  ];
+
+  it('rewrites references to a renamed file, keeping extensionless imports extensionless', () => {
+    const updates = updateReferences(files, new Map([['js/utils.js', 'js/shared/utils.js']]));
+    expect(updates.map(u => [u.path, u.content])).toEqual([
+      ['index.html', '<script type="module">import { x } from \'./js/shared/utils.js\';</script><script src="js/main.js"></script>'],
+      ['js/main.js', "import { x } from './shared/utils';\nimport { y } from '../lib/y.js';"],
+    ]);
+    expect(updates[1].changes).toEqual([{ line: 1, before: "import { x } from './utils';", after: "import { x } from './shared/utils';" }]);
+  });
+
+  it('rewrites the references of a moved file and those pointing at it', () => {
+    const updates = updateReferences(files, new Map([['js/main.js', 'main.js']]));
+    expect(updates.map(u => [u.path, u.content])).toEqual([
+      ['index.html', '<script type="module">import { x } from \'./js/utils.js\';</script><script src="main.js"></script>'],
+      ['main.js', "import { x } from './js/utils';\nimport { y } from './lib/y.js';"],
+    ]);
+  });
+
+  it('changes nothing when no reference is affected', () => {
+    expect(updateReferences(files, new Map([['lib/z.js', 'lib/w.js']]))).toEqual([]);
+  });
+});
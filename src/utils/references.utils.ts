@@ -0,0 +1,220 @@
+import { dirname, relativePath, resolvePath } from './path.utils';
+
+// Finds and rewrites references between project files: <link href>, <script src>,
+// <img src>, CSS @import / url() and ES import / export specifiers, including those in inline scripts.
+
+export type ReferenceKind = 'html' | 'css' | 'js';
+
+export interface FileReference {
+  kind: ReferenceKind;
+  /** The reference exactly as written, e.g. "../css/style.css?v=2". */
+  specifier: string;
+  start: number;
+  end: number;
+}
+
+export interface ReferenceChange {
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface ReferenceUpdate {
+  /** Path of the updated file after the rename has been applied. */
+  path: string;
+  content: string;
+  changes: ReferenceChange[];
+}
+
+interface SourceFile {
+  name: string;
+  content: string;
+  language: string;
+}
+
+const REFERENCE_PATTERNS: Record<ReferenceKind, RegExp[]> = {
+  html: [/\b(?:href|src)\s*=\s*(["'])(.*?)\1/dgi],
+  css: [/@import\s+(["'])(.*?)\1/dg, /url\(\s*(["']?)([^"')]+?)\1\s*\)/dg],
+  js: [
+    /\b(?:import|export)\s+(?:[\w*{}\s,$]+?\s+from\s+)?(["'])(.*?)\1/dg,
+    /\bimport\s*\(\s*(["'])(.*?)\1\s*\)/dg,
+  ],
+};
+
+// Inline scripts in markup, with the type of those that hold JavaScript.
+const SCRIPT_ELEMENT = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/dgi;
+const SCRIPT_TYPE = /\btype\s*=\s*(["']?)([^"'\s>]*)\1/i;
+const JS_SCRIPT_TYPES = ['', 'text/javascript', 'application/javascript', 'module'];
+
+// Extensions tried for extensionless ES imports like `import './utils'`.
+const SCRIPT_EXTENSIONS = ['js', 'ts'];
+
+export function getReferenceKind(language: string): ReferenceKind | null {
+  switch (language) {
+    case 'html': case 'svg': return 'html';
+    case 'css': case 'scss': return 'css';
+    case 'js': case 'ts': return 'js';
+    default: return null;
+  }
+}
+
+/**
+ * Lists the local references in a file, in source order. External URLs and bare imports are skipped.
+ * Markup is also scanned for CSS references, which covers <style> blocks and style attributes, and
+ * the contents of its inline scripts for imports.
+ */
+export function findReferences(content: string, language: string): FileReference[] {
+  const kind = getReferenceKind(language);
+  if (!kind) return [];
+
+  const references: FileReference[] = [];
+  for (const patternKind of kind === 'html' ? ['html', 'css'] as const : [kind]) {
+    references.push(...matchReferences(content, patternKind, 0));
+  }
+  if (kind === 'html') {
+    for (const match of content.matchAll(SCRIPT_ELEMENT)) {
+      const type = match[1].match(SCRIPT_TYPE)?.[2].toLowerCase() ?? '';
+      if (JS_SCRIPT_TYPES.includes(type)) {
+        references.push(...matchReferences(match[2], 'js', match.indices![2][0]));
+      }
+    }
+  }
+  return references.sort((a, b) => a.start - b.start);
+}
+
+/** Lists every static and dynamic import specifier of a script, including bare and URL ones. */
+export function findImportSpecifiers(content: string): FileReference[] {
+  const references: FileReference[] = [];
+  for (const pattern of REFERENCE_PATTERNS.js) {
+    for (const match of content.matchAll(pattern)) {
+      const [start, end] = match.indices![2];
+      references.push({ kind: 'js', specifier: match[2], start, end });
+    }
+  }
+  return references.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Resolves a reference made from `fromPath` to a project file path.
+ * Returns null if it doesn't point to one of `existingPaths`.
+ */
+export function resolveReference(fromPath: string, reference: FileReference, existingPaths: ReadonlySet<string>): string | null {
+  const resolved = resolvePath(dirname(fromPath), stripQuery(reference.specifier));
+  if (!resolved) return null;
+  if (existingPaths.has(resolved)) return resolved;
+  if (reference.kind === 'js') {
+    return SCRIPT_EXTENSIONS.map(ext => `${resolved}.${ext}`).find(path => existingPaths.has(path)) ?? null;
+  }
+  return null;
+}
+
+/**
+ * Computes the content changes needed to keep references working after files are renamed.
+ * `renames` maps old paths to new paths; both referenced and referencing files may move.
+ */
+export function updateReferences(files: SourceFile[], renames: ReadonlyMap<string, string>): ReferenceUpdate[] {
+  const existingPaths = new Set(files.map(f => f.name));
+  const updates: ReferenceUpdate[] = [];
+
+  for (const file of files) {
+    const newPath = renames.get(file.name) ?? file.name;
+    let content = file.content;
+
+    // Replace from the end so earlier offsets stay valid.
+    for (const reference of findReferences(file.content, file.language).reverse()) {
+      const target = resolveReference(file.name, reference, existingPaths);
+      if (!target) continue;
+      const newTarget = renames.get(target) ?? target;
+      if (newTarget === target && newPath === file.name) continue;
+
+      const specifier = buildSpecifier(reference, file.name, newPath, target, newTarget);
+      if (specifier !== reference.specifier) {
+        content = content.slice(0, reference.start) + specifier + content.slice(reference.end);
+      }
+    }
+
+    if (content !== file.content) {
+      updates.push({ path: newPath, content, changes: diffLines(file.content, content) });
+    }
+  }
+  return updates;
+}
+
+/**
+ * Replaces every reference in `file` that resolves to one of `existingPaths` with the
+ * value returned by `replace` for the target path. References for which it returns null are kept.
+ */
+export function replaceReferences(
+  file: SourceFile,
+  existingPaths: ReadonlySet<string>,
+  replace: (target: string) => string | null,
+): string {
+  let content = file.content;
+  for (const reference of findReferences(file.content, file.language).reverse()) {
+    const target = resolveReference(file.name, reference, existingPaths);
+    const replacement = target ? replace(target) : null;
+    if (replacement !== null) {
+      content = content.slice(0, reference.start) + replacement + content.slice(reference.end);
+    }
+  }
+  return content;
+}
+
+// Offsets are shifted by `offset`, the position of `content` in its file.
+function matchReferences(content: string, kind: ReferenceKind, offset: number): FileReference[] {
+  const references: FileReference[] = [];
+  for (const pattern of REFERENCE_PATTERNS[kind]) {
+    for (const match of content.matchAll(pattern)) {
+      const specifier = match[2];
+      const [start, end] = match.indices![2];
+      if (isLocalReference(specifier, kind)) {
+        references.push({ kind, specifier, start: start + offset, end: end + offset });
+      }
+    }
+  }
+  return references;
+}
+
+function isLocalReference(specifier: string, kind: ReferenceKind): boolean {
+  if (!specifier || specifier.startsWith('#') || specifier.startsWith('//')) return false;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(specifier)) return false; // http:, data:, mailto:, ...
+  if (kind === 'js') return specifier.startsWith('.') || specifier.startsWith('/');
+  return true;
+}
+
+function stripQuery(specifier: string): string {
+  return specifier.replace(/[?#].*$/, '');
+}
+
+function buildSpecifier(reference: FileReference, oldFromPath: string, newFromPath: string, oldTarget: string, newTarget: string): string {
+  const original = reference.specifier;
+  const written = stripQuery(original);
+  const suffix = original.slice(written.length);
+
+  // Keep extensionless imports extensionless.
+  let target = newTarget;
+  const resolvedAsWritten = resolvePath(dirname(oldFromPath), written);
+  const addedExtension = resolvedAsWritten && resolvedAsWritten !== oldTarget ? oldTarget.slice(resolvedAsWritten.length) : '';
+  if (addedExtension && newTarget.endsWith(addedExtension)) {
+    target = newTarget.slice(0, -addedExtension.length);
+  }
+
+  if (original.startsWith('/')) {
+    return `/${target}${suffix}`;
+  }
+  const relative = relativePath(dirname(newFromPath), target);
+  const needsDotPrefix = reference.kind === 'js' || original.startsWith('./');
+  return `${needsDotPrefix && !relative.startsWith('../') ? './' : ''}${relative}${suffix}`;
+}
+
+function diffLines(before: string, after: string): ReferenceChange[] {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  const changes: ReferenceChange[] = [];
+  beforeLines.forEach((line, index) => {
+    if (line !== afterLines[index]) {
+      changes.push({ line: index + 1, before: line.trim(), after: afterLines[index].trim() });
+    }
+  });
+  return changes;
+}
@@ -0,0 +1,124 @@
+// Values logged in the preview, as sent to the editor. Primitives travel by value; objects and
+// functions travel as handles whose properties are fetched from the preview on demand, so cyclic
+// and very deep structures never have to be copied in full.
+
+export type RemoteObjectSubtype = 'array' | 'map' | 'set' | 'error' | 'date' | 'regexp' | 'node' | 'promise';
+
+export type RemoteValue =
+  | { type: 'undefined' }
+  | { type: 'null' }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'number'; value: number; description: string }
+  | { type: 'string'; value: string }
+  | { type: 'bigint'; value: string }
+  | { type: 'symbol'; value: string }
+  | { type: 'function'; id: number; description: string }
+  | RemoteObject;
+
+export interface RemoteObject {
+  type: 'object';
+  /** Handle of the object in the preview, the same for every occurrence of the same object. */
+  id: number;
+  subtype: RemoteObjectSubtype | null;
+  className: string;
+  /** Short text such as `Array(3)`, `Map(2)`, `<div#app>` or an error's stack. */
+  description: string;
+  /** The first few entries, for the collapsed one-line view. */
+  preview?: RemotePreview;
+}
+
+export interface RemotePreview {
+  entries: RemoteProperty[];
+  /** True if the object has more entries than the preview holds. */
+  overflow: boolean;
+}
+
+export interface RemoteProperty {
+  name: string;
+  value: RemoteValue;
+  /** Key of a Map entry. */
+  key?: RemoteValue;
+}
+
+/** Console arguments: plain strings come from the editor itself, remote values from the preview. */
+export type ConsoleValue = string | RemoteValue;
+
+export function isExpandable(value: RemoteValue): value is RemoteObject | Extract<RemoteValue, { type: 'function' }> {
+  return value.type === 'object' || value.type === 'function';
+}
+
+/** Applies `map` to the strings and error descriptions in a value and its preview, e.g. to rewrite stack traces. */
+export function mapRemoteText(value: RemoteValue, map: (text: string) => string): RemoteValue {
+  switch (value.type) {
+    case 'string': return { ...value, value: map(value.value) };
+    case 'object': {
+      const description = value.subtype === 'error' ? map(value.description) : value.description;
+      const preview = value.preview && {
+        ...value.preview,
+        entries: value.preview.entries.map(entry => mapRemoteProperty(entry, map)),
+      };
+      return { ...value, description, preview };
+    }
+    default: return value;
+  }
+}
+
+export function mapRemoteProperty(property: RemoteProperty, map: (text: string) => string): RemoteProperty {
+  return { ...property, value: mapRemoteText(property.value, map) };
+}
+
+/** Applies `map` to the object and function handles in a value and its preview, e.g. to tell apart handles from several previews. */
+export function mapRemoteIds(value: RemoteValue, map: (id: number) => number): RemoteValue {
+  switch (value.type) {
+    case 'function': return { ...value, id: map(value.id) };
+    case 'object': {
+      const preview = value.preview && {
+        ...value.preview,
+        entries: value.preview.entries.map(entry => mapRemotePropertyIds(entry, map)),
+      };
+      return { ...value, id: map(value.id), preview };
+    }
+    default: return value;
+  }
+}
+
+export function mapRemotePropertyIds(property: RemoteProperty, map: (id: number) => number): RemoteProperty {
+  const mapped = { ...property, value: mapRemoteIds(property.value, map) };
+  return property.key ? { ...mapped, key: mapRemoteIds(property.key, map) } : mapped;
+}
+
+/** One-line text for a value, e.g. `{a: 1, b: Array(2)}`; strings are quoted unless `top` is set. */
+export function formatRemoteValue(value: RemoteValue, top = false): string {
+  switch (value.type) {
+    case 'undefined': return 'undefined';
+    case 'null': return 'null';
+    case 'boolean': return String(value.value);
+    case 'number': return value.description;
+    case 'string': return top ? value.value : JSON.stringify(value.value);
+    case 'bigint': return `${value.value}n`;
+    case 'symbol': return value.value;
+    case 'function': return value.description;
+    case 'object': return formatObject(value);
+  }
+}
+
+function formatObject(value: RemoteObject): string {
+  const preview = value.preview;
+  if (!preview || value.subtype === 'error' || value.subtype === 'node' || value.subtype === 'date' || value.subtype === 'regexp') {
+    return value.description;
+  }
+  const more = preview.overflow ? ', …' : '';
+  const nested = (entry: RemoteValue) => entry.type === 'object' ? entry.description : formatRemoteValue(entry);
+  switch (value.subtype) {
+    case 'array':
+      return `(${value.description.match(/\((\d+)\)/)?.[1] ?? preview.entries.length}) [${preview.entries.map(e => nested(e.value)).join(', ')}${more}]`;
+    case 'map':
+      return `${value.description} {${preview.entries.map(e => `${e.key ? nested(e.key) : e.name} => ${nested(e.value)}`).join(', ')}${more}}`;
+    case 'set':
+      return `${value.description} {${preview.entries.map(e => nested(e.value)).join(', ')}${more}}`;
+    default: {
+      const prefix = value.className && value.className !== 'Object' ? `${value.className} ` : '';
+      return `${prefix}{${preview.entries.map(e => `${e.name}: ${nested(e.value)}`).join(', ')}${more}}`;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// Minimal reader for version 3 source maps, enough to map positions in compiled TypeScript
+// back to the source. Only the first source of a map is considered: the preview compiles
+// every file on its own, so each map describes exactly one source file.
+
+/** Decoded `mappings`: for each generated line, segments of [generatedColumn, sourceLine, sourceColumn] (0-based). */
+export type SourceMapLines = [number, number, number][][];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function decodeSourceMap(json: string): SourceMapLines {
+  let mappings = '';
+  try {
+    mappings = JSON.parse(json).mappings ?? '';
+  } catch {
+    return [];
+  }
+
+  const lines: SourceMapLines = [];
+  // Apart from the generated column, segment fields are relative to the previous segment in the whole map.
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  for (const line of mappings.split(';')) {
+    const segments: [number, number, number][] = [];
+    let generatedColumn = 0;
+    for (const segment of line.split(',')) {
+      if (!segment) continue;
+      const fields = decodeVlq(segment);
+      generatedColumn += fields[0];
+      if (fields.length < 4) continue; // Generated code without a source position.
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      segments.push([generatedColumn, sourceLine, sourceColumn]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+/** Maps a 1-based position in generated code to the 1-based source position, or null if it isn't mapped. */
+export function findOriginalPosition(lines: SourceMapLines, line: number, column: number): { line: number; column: number } | null {
+  const segments = lines[line - 1];
+  if (!segments || segments.length === 0) return null;
+  // The last segment starting at or before the column; positions before the first one use the first.
+  let match = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    match = segment;
+  }
+  return { line: match[1] + 1, column: match[2] + 1 };
+}
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { formatLocation, mapStackTrace, splitSourceLinks } from './stack-trace.utils';
+
+describe('mapStackTrace', () => {
+  it('replaces positions in known scripts and keeps the ones it cannot map', () => {
+    const trace = 'Error: x\n    at f (blob:null/1:3:7)\n    at g (blob:null/1:9:1)\n    at h (blob:null/2:1:1)';
+    const mapped = mapStackTrace(trace, ['blob:null/1'], (url, line, column) => line === 3 ? { path: 'js/app.js', line: line + 10, column } : null);
+    expect(mapped).toBe('Error: x\n    at f (js/app.js:13:7)\n    at g (blob:null/1:9:1)\n    at h (blob:null/2:1:1)');
+  });
+});
+
+describe('splitSourceLinks', () => {
+  it('links project file positions but not URLs', () => {
+    expect(splitSourceLinks('at js/app.js:13:7 and https://cdn.test/lib.js:1:2, index.html:4')).toEqual([
+      'at ',
+      { text: 'js/app.js:13:7', location: { path: 'js/app.js', line: 13, column: 7 } },
+      ' and https://cdn.test/lib.js:1:2, ',
+      { text: 'index.html:4', location: { path: 'index.html', line: 4, column: 1 } },
+    ]);
+  });
+
+  it('formats a location the way it is linked', () => {
+    expect(formatLocation({ path: 'a.ts', line: 1, column: 2 })).toBe('a.ts:1:2');
+  });
+});
@@ -0,0 +1,43 @@
+/** A 1-based position in a project file. */
+export interface SourceLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
+export type StackTraceSegment = string | { text: string; location: SourceLocation };
+
+// `path/to/file.js:12:5` or `file.ts:3`, not preceded by anything that makes it part of a URL.
+const LOCATION = /(?<![\w:/.@-])((?:[\w.@-]+\/)*[\w.@-]+\.(?:js|mjs|ts|html)):(\d+)(?::(\d+))?/g;
+
+/** Replaces `url:line:column` positions in a stack trace using `map`; positions it can't map are kept. */
+export function mapStackTrace(text: string, urls: string[], map: (url: string, line: number, column: number) => SourceLocation | null): string {
+  let mapped = text;
+  for (const url of urls) {
+    if (!mapped.includes(url)) continue;
+    const escaped = url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`${escaped}:(\\d+):(\\d+)`, 'g');
+    mapped = mapped.replace(pattern, (position, line: string, column: string) => {
+      const location = map(url, Number(line), Number(column));
+      return location ? formatLocation(location) : position;
+    });
+  }
+  return mapped;
+}
+
+/** Splits text into plain parts and project file positions that can be opened in the editor. */
+export function splitSourceLinks(text: string): StackTraceSegment[] {
+  const segments: StackTraceSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(LOCATION)) {
+    if (match.index! > last) segments.push(text.slice(last, match.index));
+    segments.push({ text: match[0], location: { path: match[1], line: Number(match[2]), column: Number(match[3] ?? 1) } });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push(text.slice(last));
+  return segments;
+}
+
+export function formatLocation(location: SourceLocation): string {
+  return `${location.path}:${location.line}:${location.column}`;
+}
@@ -0,0 +1,63 @@
+import { unzipSync, zipSync, Zippable } from 'fflate';
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ZipContents {
+  files: ZipEntry[];
+  folders: string[];
+  /** Entries that were not extracted because they exceed the size limit. */
+  oversized: string[];
+}
+
+const MAX_ENTRY_SIZE = 5 * 1024 * 1024;
+
+/** Packs files and (possibly empty) folders into a ZIP archive. */
+export function createZip(files: ZipEntry[], folders: string[]): Uint8Array {
+  const zippable: Zippable = {};
+  for (const folder of folders) {
+    zippable[`${folder}/`] = new Uint8Array(0);
+  }
+  for (const file of files) {
+    zippable[file.path] = file.data;
+  }
+  return zipSync(zippable, { level: 6 });
+}
+
+/** Unpacks a ZIP archive. Paths are returned exactly as stored, without normalization. */
+export function readZip(data: Uint8Array): ZipContents {
+  const oversized: string[] = [];
+  const unzipped = unzipSync(data, {
+    filter: entry => {
+      // Guards against zip bombs: large entries are reported instead of being inflated.
+      if (entry.originalSize > MAX_ENTRY_SIZE) {
+        oversized.push(entry.name);
+        return false;
+      }
+      return true;
+    },
+  });
+
+  const files: ZipEntry[] = [];
+  const folders: string[] = [];
+  for (const [path, content] of Object.entries(unzipped)) {
+    if (path.endsWith('/')) {
+      folders.push(path.slice(0, -1));
+    } else {
+      files.push({ path, data: content });
+    }
+  }
+  return { files, folders, oversized };
+}
+
+/** Offers binary data to the user as a file download. */
+export function downloadBlob(data: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}